@@ -2,18 +2,59 @@
 
 import * as React from 'react'
 
+import {
+  type CanvasLayout,
+  drawBars,
+  getScaledContext,
+  resolveCssColor,
+  useDevicePixelRatio,
+  useThemeVersion,
+} from '../utils/canvas'
+
+/**
+ * @description How AudioVisualizer draws the signal
+ * - 'bars': frequency bars
+ * - 'waveform': time-domain oscilloscope line
+ * - 'circular': frequency bars arranged radially
+ * - 'meter': single horizontal level (VU) meter
+ */
+export type AudioVisualizerMode = 'bars' | 'waveform' | 'circular' | 'meter'
+
+/**
+ * @description Audio that AudioVisualizer can analyse
+ * - MediaStream: microphone or remote call audio
+ * - HTMLMediaElement: an <audio> or <video> element, e.g. TTS playback
+ * - AnalyserNode: an existing analyser, used as-is
+ */
+export type AudioVisualizerSource = MediaStream | HTMLMediaElement | AnalyserNode
+
 /**
  * @description Props for AudioVisualizer component
  */
 export interface AudioVisualizerProps {
   /**
-   * @description Whether recording is active
+   * @description Whether to visualize live audio; the idle state is drawn when false
+   * @default true
+   */
+  isRecording?: boolean
+  /**
+   * @description MediaRecorder instance for audio analysis; its stream is used when no source is given
+   */
+  mediaRecorder?: MediaRecorder | null
+  /**
+   * @description Audio to analyse instead of a MediaRecorder
+   */
+  source?: AudioVisualizerSource | null
+  /**
+   * @description AudioContext used to analyse stream and media element sources
+   * If not provided, one is created per stream and per media element
    */
-  isRecording: boolean
+  audioContext?: AudioContext
   /**
-   * @description MediaRecorder instance for audio analysis
+   * @description Render mode
+   * @default 'bars'
    */
-  mediaRecorder: MediaRecorder | null
+  mode?: AudioVisualizerMode
   /**
    * @description Canvas width in pixels
    * @default 280
@@ -25,12 +66,17 @@ export interface AudioVisualizerProps {
    */
   height?: number
   /**
-   * @description Bar color when recording
-   * @default '#a78bfa'
+   * @description Bar color when recording; CSS variables are resolved against the current theme
+   * @default 'var(--primary, #a78bfa)'
    */
   barColor?: string
   /**
-   * @description Width of each bar in pixels
+   * @description Color of the idle state and the meter track, drawn at 20% opacity
+   * @default barColor
+   */
+  idleColor?: string
+  /**
+   * @description Width of each bar in pixels (line width in 'waveform' mode)
    * @default 3
    */
   barWidth?: number
@@ -39,128 +85,355 @@ export interface AudioVisualizerProps {
    * @default 2
    */
   gap?: number
+  /**
+   * @description AnalyserNode FFT size, a power of two between 32 and 32768
+   * Larger sizes give finer frequency detail and longer waveform windows.
+   * Ignored when source is an AnalyserNode.
+   * @default 256
+   */
+  fftSize?: number
+  /**
+   * @description AnalyserNode smoothing between frames, from 0 (none) to 1
+   * Ignored when source is an AnalyserNode.
+   * @default 0.8
+   */
+  smoothingTimeConstant?: number
 }
 
+const IDLE_OPACITY = 0.2
+const METER_FLOOR_DB = -60
+
 /**
- * @description Audio visualizer component that displays waveform during recording
+ * @description Audio visualizer component that displays waveform during recording or playback
+ * Reads a MediaRecorder's stream by default, or any MediaStream, media element or AnalyserNode
+ * Scales the canvas to the device pixel ratio, and re-resolves CSS variable colors
+ * when the theme changes
  * @example
  * <AudioVisualizer
  *   isRecording={isRecording}
  *   mediaRecorder={mediaRecorder}
- *   barColor="#a78bfa"
+ *   barColor="var(--primary)"
  * />
+ *
+ * // Oscilloscope with a longer window
+ * <AudioVisualizer mode="waveform" fftSize={2048} {...props} />
+ *
+ * // TTS playback
+ * <AudioVisualizer source={audioElementRef.current} mode="meter" />
  */
 export function AudioVisualizer({
-  isRecording,
+  isRecording = true,
   mediaRecorder,
+  source,
+  audioContext,
+  mode = 'bars',
   width = 280,
   height = 60,
-  barColor = '#a78bfa',
+  barColor = 'var(--primary, #a78bfa)',
+  idleColor,
   barWidth = 3,
   gap = 2,
+  fftSize = 256,
+  smoothingTimeConstant = 0.8,
 }: AudioVisualizerProps) {
   const canvasRef = React.useRef<HTMLCanvasElement>(null)
-  const animationRef = React.useRef<number | null>(null)
-  const analyserRef = React.useRef<AnalyserNode | null>(null)
-  const audioContextRef = React.useRef<AudioContext | null>(null)
+  const pixelRatio = useDevicePixelRatio()
+  const themeVersion = useThemeVersion()
 
-  const barCount = Math.floor(width / (barWidth + gap))
-
-  // Draw idle state
-  const drawIdle = React.useCallback(() => {
+  React.useEffect(() => {
     const canvas = canvasRef.current
-    if (!canvas) return
+    const ctx = getScaledContext(canvas, pixelRatio)
+    if (!canvas || !ctx) return
+
+    const layout: CanvasLayout = { width, height, barWidth, gap }
+    const activeColor = resolveCssColor(canvas, barColor)
+    const trackColor = resolveCssColor(canvas, idleColor ?? barColor)
+
+    const input = source ?? (mediaRecorder?.state === 'inactive' ? null : mediaRecorder?.stream)
+    const connection = isRecording && input ? connectAnalyser(input, audioContext) : null
+    if (!connection) {
+      drawIdle(ctx, mode, layout, trackColor)
+      return
+    }
 
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
+    const { analyser } = connection
+    if (!(input instanceof AnalyserNode)) {
+      analyser.fftSize = fftSize
+      analyser.smoothingTimeConstant = smoothingTimeConstant
+    }
 
-    ctx.clearRect(0, 0, width, height)
+    const frequencyData = new Uint8Array(analyser.frequencyBinCount)
+    const timeData = new Uint8Array(analyser.fftSize)
+    let animationFrame = 0
 
-    for (let i = 0; i < barCount; i++) {
-      const barHeight = Math.max(4, 4 + Math.sin(i * 0.3) * 3 + Math.sin(i * 0.7) * 2)
-      const x = i * (barWidth + gap)
-      const y = (height - barHeight) / 2
+    const draw = () => {
+      animationFrame = requestAnimationFrame(draw)
 
-      ctx.fillStyle = 'rgba(167, 139, 250, 0.2)'
-      ctx.beginPath()
-      ctx.roundRect(x, y, barWidth, barHeight, barWidth / 2)
-      ctx.fill()
+      if (mode === 'waveform') {
+        analyser.getByteTimeDomainData(timeData)
+        drawWaveform(ctx, timeData, layout, activeColor)
+      } else if (mode === 'meter') {
+        analyser.getByteTimeDomainData(timeData)
+        drawMeter(ctx, getLevel(timeData), layout, activeColor, trackColor)
+      } else {
+        analyser.getByteFrequencyData(frequencyData)
+        const count = mode === 'circular' ? getCircularBarCount(layout) : getBarCount(layout)
+        const levels = sampleLevels(frequencyData, count)
+        if (mode === 'circular') {
+          drawCircular(ctx, levels, layout, activeColor)
+        } else {
+          const heights = levels.map((level) => Math.max(4, level * height * 0.9))
+          drawBars(ctx, heights, { ...layout, color: activeColor })
+        }
+      }
     }
-  }, [width, height, barWidth, gap, barCount])
 
-  // Active recording visualization
-  React.useEffect(() => {
-    if (!isRecording || !mediaRecorder || mediaRecorder.state === 'inactive') {
-      // Draw idle state when not recording
-      drawIdle()
-      return
+    draw()
+
+    return () => {
+      cancelAnimationFrame(animationFrame)
+      connection.disconnect()
     }
+  }, [
+    isRecording,
+    mediaRecorder,
+    source,
+    audioContext,
+    mode,
+    width,
+    height,
+    barColor,
+    idleColor,
+    barWidth,
+    gap,
+    fftSize,
+    smoothingTimeConstant,
+    pixelRatio,
+    themeVersion,
+  ])
 
-    const audioContext = new AudioContext()
-    audioContextRef.current = audioContext
-    const analyser = audioContext.createAnalyser()
-    analyser.fftSize = 256
-    analyserRef.current = analyser
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.round(width * pixelRatio)}
+      height={Math.round(height * pixelRatio)}
+      style={{ width, height }}
+    />
+  )
+}
 
-    const stream = mediaRecorder.stream
-    const source = audioContext.createMediaStreamSource(stream)
-    source.connect(analyser)
+/**
+ * @description Media elements can only be routed into Web Audio once, so their source nodes
+ * are kept for the element's lifetime and reused across renders
+ */
+const mediaElementSources = new WeakMap<
+  HTMLMediaElement,
+  { context: AudioContext; node: MediaElementAudioSourceNode }
+>()
 
-    const bufferLength = analyser.frequencyBinCount
-    const dataArray = new Uint8Array(bufferLength)
+/**
+ * @description Get an AnalyserNode fed by the source, and a function that undoes the connection
+ * Contexts created here are closed on disconnect; a provided context is left open.
+ * Returns null for streams without audio tracks.
+ */
+function connectAnalyser(
+  source: AudioVisualizerSource,
+  audioContext?: AudioContext
+): { analyser: AnalyserNode; disconnect: () => void } | null {
+  if (source instanceof AnalyserNode) {
+    return { analyser: source, disconnect: () => {} }
+  }
 
-    const canvas = canvasRef.current
-    if (!canvas) return
+  if (source instanceof MediaStream) {
+    if (source.getAudioTracks().length === 0) return null
 
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
+    const context = audioContext ?? new AudioContext()
+    const analyser = context.createAnalyser()
+    const node = context.createMediaStreamSource(source)
+    node.connect(analyser)
+    return {
+      analyser,
+      disconnect: () => {
+        node.disconnect()
+        if (!audioContext) context.close()
+      },
+    }
+  }
 
-    const draw = () => {
-      if (!analyserRef.current) return
+  // Routing an element through Web Audio takes over its output, so keep it audible
+  let elementSource = mediaElementSources.get(source)
+  if (!elementSource) {
+    const context = audioContext ?? new AudioContext()
+    const node = context.createMediaElementSource(source)
+    node.connect(context.destination)
+    elementSource = { context, node }
+    mediaElementSources.set(source, elementSource)
+  }
 
-      animationRef.current = requestAnimationFrame(draw)
-      analyserRef.current.getByteFrequencyData(dataArray)
+  // Contexts created outside a user gesture start suspended, which would mute playback
+  const { context, node } = elementSource
+  const resume = () => {
+    if (context.state === 'suspended') void context.resume()
+  }
+  resume()
+  source.addEventListener('play', resume)
 
-      ctx.clearRect(0, 0, width, height)
+  const analyser = context.createAnalyser()
+  node.connect(analyser)
+  return {
+    analyser,
+    disconnect: () => {
+      source.removeEventListener('play', resume)
+      node.disconnect(analyser)
+    },
+  }
+}
 
-      const step = Math.floor(bufferLength / barCount)
+/**
+ * @description Draw the resting state for a mode, faded to the idle opacity
+ */
+function drawIdle(
+  ctx: CanvasRenderingContext2D,
+  mode: AudioVisualizerMode,
+  layout: CanvasLayout,
+  color: string
+) {
+  // The meter track is already faded
+  if (mode === 'meter') {
+    drawMeter(ctx, 0, layout, color, color)
+    return
+  }
 
-      for (let i = 0; i < barCount; i++) {
-        const dataIndex = i * step
-        const value = dataArray[dataIndex] || 0
-        const currentBarHeight = Math.max(4, (value / 255) * height * 0.9)
+  ctx.globalAlpha = IDLE_OPACITY
+  if (mode === 'waveform') {
+    drawWaveform(ctx, null, layout, color)
+  } else if (mode === 'circular') {
+    drawCircular(ctx, new Array(getCircularBarCount(layout)).fill(0), layout, color)
+  } else {
+    const heights = Array.from({ length: getBarCount(layout) }, (_, i) =>
+      Math.max(4, 4 + Math.sin(i * 0.3) * 3 + Math.sin(i * 0.7) * 2)
+    )
+    drawBars(ctx, heights, { ...layout, color })
+  }
+  ctx.globalAlpha = 1
+}
 
-        const x = i * (barWidth + gap)
-        const y = (height - currentBarHeight) / 2
+function getBarCount({ width, barWidth, gap }: CanvasLayout): number {
+  return Math.floor(width / (barWidth + gap))
+}
 
-        ctx.fillStyle = barColor
-        ctx.beginPath()
-        ctx.roundRect(x, y, barWidth, currentBarHeight, barWidth / 2)
-        ctx.fill()
-      }
-    }
+function getCircularBarCount({ width, height, barWidth, gap }: CanvasLayout): number {
+  const innerRadius = (Math.min(width, height) / 2) * 0.45
+  return Math.max(8, Math.floor((2 * Math.PI * innerRadius) / (barWidth + gap)))
+}
 
-    draw()
+/**
+ * @description Pick `count` evenly spaced frequency bins as levels from 0 to 1
+ */
+function sampleLevels(data: Uint8Array, count: number): number[] {
+  const step = Math.max(1, Math.floor(data.length / count))
+  return Array.from({ length: count }, (_, i) => (data[i * step] || 0) / 255)
+}
 
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current)
-        animationRef.current = null
-      }
-      analyserRef.current = null
-      if (audioContextRef.current) {
-        audioContextRef.current.close()
-        audioContextRef.current = null
-      }
-    }
-  }, [isRecording, mediaRecorder, width, height, barColor, barWidth, gap, barCount, drawIdle])
+/**
+ * @description RMS level of time-domain data, mapped from -60..0 dBFS to 0..1
+ */
+function getLevel(timeData: Uint8Array): number {
+  let sum = 0
+  for (const value of timeData) {
+    const sample = (value - 128) / 128
+    sum += sample * sample
+  }
+  const rms = Math.sqrt(sum / timeData.length)
+  if (rms === 0) return 0
+  return Math.max(0, Math.min(1, 1 - (20 * Math.log10(rms)) / METER_FLOOR_DB))
+}
 
-  // Draw idle on mount
-  React.useEffect(() => {
-    if (!isRecording) {
-      drawIdle()
+/**
+ * @description Oscilloscope line; a flat line when there is no data
+ */
+function drawWaveform(
+  ctx: CanvasRenderingContext2D,
+  timeData: Uint8Array | null,
+  { width, height, barWidth }: CanvasLayout,
+  color: string
+) {
+  ctx.clearRect(0, 0, width, height)
+  ctx.strokeStyle = color
+  ctx.lineWidth = barWidth
+  ctx.lineJoin = 'round'
+  ctx.lineCap = 'round'
+
+  const amplitude = height / 2 - barWidth
+  ctx.beginPath()
+  if (!timeData) {
+    ctx.moveTo(barWidth, height / 2)
+    ctx.lineTo(width - barWidth, height / 2)
+  } else {
+    for (let i = 0; i < timeData.length; i++) {
+      const x = (i / (timeData.length - 1)) * width
+      const y = height / 2 + ((timeData[i] - 128) / 128) * amplitude
+      if (i === 0) ctx.moveTo(x, y)
+      else ctx.lineTo(x, y)
     }
-  }, [isRecording, drawIdle])
+  }
+  ctx.stroke()
+}
+
+/**
+ * @description Bars radiating from a circle in the middle of the canvas
+ */
+function drawCircular(
+  ctx: CanvasRenderingContext2D,
+  levels: number[],
+  { width, height, barWidth }: CanvasLayout,
+  color: string
+) {
+  ctx.clearRect(0, 0, width, height)
+  ctx.fillStyle = color
+
+  const radius = Math.min(width, height) / 2
+  const innerRadius = radius * 0.45
+  const maxLength = radius - innerRadius
+
+  levels.forEach((level, i) => {
+    const length = Math.max(2, level * maxLength)
+    ctx.save()
+    ctx.translate(width / 2, height / 2)
+    ctx.rotate((i / levels.length) * 2 * Math.PI - Math.PI / 2)
+    ctx.beginPath()
+    ctx.roundRect(innerRadius, -barWidth / 2, length, barWidth, barWidth / 2)
+    ctx.fill()
+    ctx.restore()
+  })
+}
+
+/**
+ * @description Horizontal level meter over a faint track
+ */
+function drawMeter(
+  ctx: CanvasRenderingContext2D,
+  level: number,
+  { width, height }: CanvasLayout,
+  color: string,
+  trackColor: string
+) {
+  ctx.clearRect(0, 0, width, height)
+
+  const trackHeight = Math.min(height, 12)
+  const y = (height - trackHeight) / 2
+
+  ctx.globalAlpha = IDLE_OPACITY
+  ctx.fillStyle = trackColor
+  ctx.beginPath()
+  ctx.roundRect(0, y, width, trackHeight, trackHeight / 2)
+  ctx.fill()
+  ctx.globalAlpha = 1
 
-  return <canvas ref={canvasRef} width={width} height={height} style={{ width, height }} />
+  if (level > 0) {
+    ctx.fillStyle = color
+    ctx.beginPath()
+    ctx.roundRect(0, y, Math.max(trackHeight, level * width), trackHeight, trackHeight / 2)
+    ctx.fill()
+  }
 }
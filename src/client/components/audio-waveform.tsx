@@ -0,0 +1,154 @@
+'use client'
+
+import * as React from 'react'
+
+import { decodeAudioBlob, getWaveformPeaks } from '../utils/audio-utils'
+import {
+  drawBars,
+  getScaledContext,
+  resolveCssColor,
+  useDevicePixelRatio,
+  useThemeVersion,
+} from '../utils/canvas'
+
+/**
+ * @description Props for AudioWaveform component
+ */
+export interface AudioWaveformProps {
+  /**
+   * @description Recorded audio to draw
+   */
+  audio: Blob | null
+  /**
+   * @description Playback position from 0 to 1; bars before it use barColor, the rest mutedColor
+   * If not provided, all bars use barColor
+   */
+  progress?: number
+  /**
+   * @description Canvas width in pixels
+   * @default 280
+   */
+  width?: number
+  /**
+   * @description Canvas height in pixels
+   * @default 60
+   */
+  height?: number
+  /**
+   * @description Bar color (played part when progress is set); CSS variables are resolved against the current theme
+   * @default 'var(--primary, #a78bfa)'
+   */
+  barColor?: string
+  /**
+   * @description Color of the part that hasn't been played yet, drawn at 35% opacity
+   * @default barColor
+   */
+  mutedColor?: string
+  /**
+   * @description Width of each bar in pixels
+   * @default 3
+   */
+  barWidth?: number
+  /**
+   * @description Gap between bars in pixels
+   * @default 2
+   */
+  gap?: number
+  /**
+   * @description Seek callback with the clicked position from 0 to 1
+   */
+  onSeek?: (progress: number) => void
+}
+
+const MUTED_OPACITY = 0.35
+
+/**
+ * @description Static waveform of a recording, drawn with the same bars as AudioVisualizer
+ * @example
+ * <AudioWaveform audio={file} progress={currentTime / duration} onSeek={seek} />
+ */
+export function AudioWaveform({
+  audio,
+  progress,
+  width = 280,
+  height = 60,
+  barColor = 'var(--primary, #a78bfa)',
+  mutedColor,
+  barWidth = 3,
+  gap = 2,
+  onSeek,
+}: AudioWaveformProps) {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null)
+  const pixelRatio = useDevicePixelRatio()
+  const themeVersion = useThemeVersion()
+  const [peaks, setPeaks] = React.useState<number[] | null>(null)
+
+  const barCount = Math.floor(width / (barWidth + gap))
+
+  // Decode once per recording and bar count
+  React.useEffect(() => {
+    setPeaks(null)
+    if (!audio) return
+
+    let cancelled = false
+    decodeAudioBlob(audio)
+      .then((decoded) => {
+        if (!cancelled) setPeaks(getWaveformPeaks(decoded, barCount))
+      })
+      .catch((error) => console.warn('Failed to decode audio for waveform:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [audio, barCount])
+
+  React.useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = getScaledContext(canvas, pixelRatio)
+    if (!canvas || !ctx) return
+
+    const playedColor = resolveCssColor(canvas, barColor)
+    const unplayedColor = resolveCssColor(canvas, mutedColor ?? barColor)
+
+    const heights = Array.from({ length: barCount }, (_, i) =>
+      Math.max(4, (peaks?.[i] ?? 0) * height * 0.9)
+    )
+    const playedBars = progress === undefined ? barCount : progress * barCount
+
+    drawBars(ctx, heights, {
+      width,
+      height,
+      barWidth,
+      gap,
+      color: (i) => (i < playedBars ? playedColor : unplayedColor),
+      opacity: (i) => (i < playedBars ? 1 : MUTED_OPACITY),
+    })
+  }, [
+    peaks,
+    progress,
+    width,
+    height,
+    barColor,
+    mutedColor,
+    barWidth,
+    gap,
+    barCount,
+    pixelRatio,
+    themeVersion,
+  ])
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    onSeek?.(Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)))
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.round(width * pixelRatio)}
+      height={Math.round(height * pixelRatio)}
+      style={{ width, height, cursor: onSeek ? 'pointer' : undefined }}
+      onClick={onSeek ? handleClick : undefined}
+    />
+  )
+}
@@ -1,15 +1,54 @@
 'use client'
 
-import { Info, Loader2, Mic, MicOff, Send, Sparkles } from 'lucide-react'
+import {
+  ArrowDown,
+  Check,
+  Copy,
+  FileText,
+  Info,
+  Loader2,
+  Mic,
+  MicOff,
+  Paperclip,
+  Pause,
+  Pencil,
+  Play,
+  RefreshCw,
+  RotateCcw,
+  Send,
+  Sparkles,
+  Trash2,
+  X,
+} from 'lucide-react'
 import * as React from 'react'
 import type { AIFormMessage } from 'tanstack-effect/ai'
 
+import { Alert, AlertDescription, AlertTitle } from '../../components/ui/alert'
 import { Button } from '../../components/ui/button'
 import { Textarea } from '../../components/ui/textarea'
 import { cn } from '../../utils'
+import { type MicrophoneErrorCode, useAudioRecorder } from '../hooks/use-audio-recorder'
 import { useSpeechToText } from '../hooks/use-speech-to-text'
-import { convertToWav, getExtensionForMimeType, getSupportedMimeType } from '../utils/audio-utils'
+import { useVirtualList } from '../hooks/use-virtual-list'
+import type { AudioPreprocessingOptions } from '../utils/audio-preprocessing'
 import { AudioVisualizer } from './audio-visualizer'
+import { AudioWaveform } from './audio-waveform'
+import { Markdown } from './markdown'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+
+export type { AudioPreprocessingOptions }
+
+/**
+ * @description Message in a ChatView conversation
+ */
+export interface ChatMessage extends AIFormMessage {
+  /**
+   * @description Stable id, used to keep each message's rendered state across updates
+   * If not provided, one is generated per message object, so keep message objects
+   * (rather than recreating them) between renders
+   */
+  id?: string
+}
 
 /**
  * @description Props for ChatView component
@@ -17,16 +56,41 @@ import { AudioVisualizer } from './audio-visualizer'
 export interface ChatViewProps {
   /**
    * @description Messages in the conversation
+   * Only messages near the visible area are rendered, so long conversations stay fast
    */
-  messages: AIFormMessage[]
+  messages: ChatMessage[]
   /**
    * @description Current status of AI
    */
   status: 'idle' | 'filling' | 'clarifying' | 'complete' | 'error'
   /**
-   * @description Callback to send a message
+   * @description Assistant reply that is still streaming in, shown after the messages with a
+   * typing cursor. Clear it once the complete reply is added to messages.
+   * While it's empty, the loading indicator is shown instead.
+   */
+  streamingContent?: string
+  /**
+   * @description Callback to send a message, with the files attached to it
+   */
+  onSend: (message: string, attachments: File[]) => void
+  /**
+   * @description Edit a previous user message and resend it, shown as an action on user messages
+   * Drop the messages after `index`, replace the message's content and send it again
+   * @example
+   * onEditMessage={(index, content) => {
+   *   setMessages(messages.slice(0, index))
+   *   send(content)
+   * }}
+   */
+  onEditMessage?: (index: number, content: string, message: ChatMessage) => void
+  /**
+   * @description Retry the last assistant reply, shown as an action on that reply
+   */
+  onRegenerate?: () => void
+  /**
+   * @description Delete a message, shown as an action on every message
    */
-  onSend: (message: string) => void
+  onDeleteMessage?: (index: number, message: ChatMessage) => void
   /**
    * @description Optional className for container
    */
@@ -46,6 +110,57 @@ export interface ChatViewProps {
    * @default '/api/speech-to-text'
    */
   voiceEndpoint?: string
+  /**
+   * @description Stream partial transcripts while a voice note is being transcribed
+   * @default false
+   */
+  voiceStreaming?: boolean
+  /**
+   * @description Preprocess voice notes before upload (mono downmix, 16 kHz resample,
+   * silence trimming, peak normalization), or false to upload the decoded audio as-is
+   * @default {}
+   */
+  voicePreprocessing?: AudioPreprocessingOptions | false
+  /**
+   * @description Stop recording automatically after this many milliseconds of silence
+   * following speech, and send the recording for transcription (hands-free input)
+   * If not provided, recording only stops when the user clicks the stop button
+   * @example 1500
+   */
+  autoStopOnSilenceMs?: number
+  /**
+   * @description Maximum voice note length in seconds
+   * Shows the remaining time while recording, then stops and transcribes at the limit
+   * If not provided, recordings have no length limit
+   */
+  maxRecordingSeconds?: number
+  /**
+   * @description Let users play back a voice note and keep, discard or re-record it
+   * before it is transcribed
+   * @default false
+   */
+  reviewVoiceNotes?: boolean
+  /**
+   * @description Let users attach files to a message with drag-and-drop, paste or a file picker
+   * Attached files are passed to onSend
+   * @default false
+   */
+  enableAttachments?: boolean
+  /**
+   * @description File types that can be attached, in the format of the file input accept attribute
+   * @default 'image/*,application/pdf,text/csv,.csv'
+   */
+  acceptAttachments?: string
+  /**
+   * @description Maximum size of each attachment in bytes
+   * @default 10485760 (10 MB)
+   */
+  maxAttachmentSize?: number
+  /**
+   * @description Maximum number of attachments per message
+   * @default 5
+   */
+  maxAttachments?: number
   /**
    * @description Maximum height for the messages container
    * When reached, the container will scroll
@@ -55,107 +170,373 @@ export interface ChatViewProps {
 }
 
 /**
- * @description Simple markdown renderer for chat messages
- * Supports: **bold**, *italic*, bullet points, and line breaks
+ * @description Help shown when the microphone can't be opened
  */
-function renderMarkdown(text: string): React.ReactNode {
-  const lines = text.split('\n')
+const MICROPHONE_ERROR_HELP: Record<MicrophoneErrorCode, { title: string; description: string }> = {
+  PERMISSION_DENIED: {
+    title: 'Microphone access is blocked',
+    description:
+      "Allow microphone access for this site in your browser's address bar or site settings, then try again.",
+  },
+  NO_DEVICE: {
+    title: 'No microphone found',
+    description: 'Connect a microphone or choose another input device, then try again.',
+  },
+  DEVICE_BUSY: {
+    title: 'Microphone is unavailable',
+    description: 'Another app may be using it. Close it or choose another input device.',
+  },
+  UNSUPPORTED: {
+    title: 'Voice input is not supported here',
+    description: 'Your browser only allows microphone access on secure (HTTPS) pages.',
+  },
+  UNKNOWN: {
+    title: 'Could not start recording',
+    description: 'Something went wrong while opening the microphone. Please try again.',
+  },
+}
 
-  return lines.map((line, lineIndex) => {
-    // Check if it's a bullet point
-    const bulletMatch = line.match(/^(\s*)(•|-)\s*(.*)$/)
+const DEFAULT_ACCEPT_ATTACHMENTS = 'image/*,application/pdf,text/csv,.csv'
+const DEFAULT_MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+const DEFAULT_MAX_ATTACHMENTS = 5
 
-    let content: React.ReactNode
+/**
+ * @description Distance from the bottom, in pixels, within which the conversation follows new
+ * messages; scrolled further up, the user is reading history and isn't scrolled away from it
+ */
+const SCROLL_LOCK_THRESHOLD_PX = 48
 
-    if (bulletMatch) {
-      const [, indent, , bulletContent] = bulletMatch
-      content = (
-        <span>
-          {indent}• {renderInlineMarkdown(bulletContent)}
-        </span>
-      )
-    } else {
-      content = renderInlineMarkdown(line)
-    }
+const generatedMessageIds = new WeakMap<ChatMessage, string>()
+let nextMessageId = 0
 
-    return (
-      <React.Fragment key={lineIndex}>
-        {lineIndex > 0 && <br />}
-        {content}
-      </React.Fragment>
-    )
+/**
+ * @description Get a message's id, generating one per message object when it has none
+ */
+function getMessageId(message: ChatMessage): string {
+  if (message.id) return message.id
+
+  let id = generatedMessageIds.get(message)
+  if (!id) {
+    id = `message-${++nextMessageId}`
+    generatedMessageIds.set(message, id)
+  }
+  return id
+}
+
+/**
+ * @description Format seconds as m:ss for the recording timer
+ */
+function formatDuration(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds))
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+/**
+ * @description Format a file size for attachment chips
+ */
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * @description Whether a file matches a file input accept attribute, e.g. 'image/*,.csv'
+ * Dropped and pasted files skip the picker's filtering, so they are checked here
+ */
+function isAcceptedFile(file: File, accept: string): boolean {
+  const patterns = accept
+    .split(',')
+    .map((pattern) => pattern.trim().toLowerCase())
+    .filter(Boolean)
+  if (patterns.length === 0) return true
+
+  const name = file.name.toLowerCase()
+  const type = file.type.toLowerCase()
+  return patterns.some((pattern) => {
+    if (pattern.startsWith('.')) return name.endsWith(pattern)
+    if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1))
+    return type === pattern
   })
 }
 
 /**
- * @description Render inline markdown (bold, italic)
+ * @description Object URL for a blob, created and revoked by the same effect so it stays valid
+ * when StrictMode runs effects twice
  */
-function renderInlineMarkdown(text: string): React.ReactNode {
-  const parts: React.ReactNode[] = []
-  let remaining = text
-  let keyCounter = 0
-
-  // Process **bold** and *italic*
-  while (remaining.length > 0) {
-    // Look for **bold**
-    const boldMatch = remaining.match(/\*\*([^*]+)\*\*/)
-    // Look for *italic* (but not **)
-    const italicMatch = remaining.match(/(?<!\*)\*([^*]+)\*(?!\*)/)
-
-    let firstMatch: { match: RegExpMatchArray; type: 'bold' | 'italic' } | null = null
-
-    if (boldMatch && italicMatch) {
-      // Use whichever comes first
-      if ((boldMatch.index ?? Infinity) <= (italicMatch.index ?? Infinity)) {
-        firstMatch = { match: boldMatch, type: 'bold' }
-      } else {
-        firstMatch = { match: italicMatch, type: 'italic' }
-      }
-    } else if (boldMatch) {
-      firstMatch = { match: boldMatch, type: 'bold' }
-    } else if (italicMatch) {
-      firstMatch = { match: italicMatch, type: 'italic' }
+function useObjectUrl(blob: Blob | null): string | null {
+  const [url, setUrl] = React.useState<string | null>(null)
+  React.useEffect(() => {
+    if (!blob) {
+      setUrl(null)
+      return
     }
+    const objectUrl = URL.createObjectURL(blob)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [blob])
+  return url
+}
 
-    if (firstMatch && firstMatch.match.index !== undefined) {
-      // Add text before the match
-      if (firstMatch.match.index > 0) {
-        parts.push(remaining.slice(0, firstMatch.match.index))
-      }
+/**
+ * @description Attached file with an image preview or file icon, name, size and remove button
+ */
+function AttachmentChip({ file, onRemove }: { file: File; onRemove: () => void }) {
+  const isImage = file.type.startsWith('image/')
+  const url = useObjectUrl(isImage ? file : null)
 
-      // Add the formatted text
-      if (firstMatch.type === 'bold') {
-        parts.push(
-          <strong key={keyCounter++} className="font-semibold">
-            {firstMatch.match[1]}
-          </strong>
-        )
-      } else {
-        parts.push(
-          <em key={keyCounter++} className="italic">
-            {firstMatch.match[1]}
-          </em>
-        )
-      }
+  return (
+    <div className="flex items-center gap-2 rounded-lg border bg-muted/50 p-1 text-xs">
+      {url ? (
+        <img src={url} alt="" className="h-8 w-8 shrink-0 rounded object-cover" />
+      ) : (
+        <FileText className="ml-1 h-4 w-4 shrink-0 text-muted-foreground" />
+      )}
+      <div className="flex min-w-0 flex-col">
+        <span className="max-w-32 truncate font-medium" title={file.name}>
+          {file.name}
+        </span>
+        <span className="text-muted-foreground">{formatFileSize(file.size)}</span>
+      </div>
+      <Button
+        onClick={onRemove}
+        size="icon"
+        variant="ghost"
+        className="h-6 w-6 shrink-0"
+        title={`Remove ${file.name}`}
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  )
+}
 
-      remaining = remaining.slice(firstMatch.match.index + firstMatch.match[0].length)
-    } else {
-      // No more matches, add remaining text
-      parts.push(remaining)
-      break
+/**
+ * @description Playback and keep/discard/re-record controls for a recorded voice note
+ */
+function VoiceNoteReview({
+  audio,
+  onSend,
+  onDiscard,
+  onReRecord,
+}: {
+  audio: File
+  onSend: () => void
+  onDiscard: () => void
+  onReRecord: () => void
+}) {
+  const audioRef = React.useRef<HTMLAudioElement>(null)
+  const [isPlaying, setIsPlaying] = React.useState(false)
+  const [progress, setProgress] = React.useState(0)
+
+  const url = useObjectUrl(audio)
+
+  const togglePlayback = () => {
+    const element = audioRef.current
+    if (!element) return
+    if (element.paused) element.play()
+    else element.pause()
+  }
+
+  const seek = (position: number) => {
+    const element = audioRef.current
+    if (element && Number.isFinite(element.duration)) {
+      element.currentTime = position * element.duration
+      setProgress(position)
     }
   }
 
-  return parts.length === 1 ? parts[0] : <>{parts}</>
+  return (
+    <div className="flex items-center justify-center gap-2 px-4 py-2 border-t bg-muted/50">
+      <audio
+        ref={audioRef}
+        src={url ?? undefined}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setProgress(0)}
+        onTimeUpdate={(event) => {
+          const { currentTime, duration } = event.currentTarget
+          if (Number.isFinite(duration) && duration > 0) setProgress(currentTime / duration)
+        }}
+      />
+      <Button
+        onClick={togglePlayback}
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 shrink-0"
+        title={isPlaying ? 'Pause' : 'Play voice note'}
+      >
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      <AudioWaveform
+        audio={audio}
+        progress={progress}
+        onSeek={seek}
+        width={160}
+        height={32}
+        barColor="var(--primary)"
+      />
+      <Button
+        onClick={onDiscard}
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 shrink-0"
+        title="Discard voice note"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+      <Button
+        onClick={onReRecord}
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 shrink-0"
+        title="Record again"
+      >
+        <RotateCcw className="h-4 w-4" />
+      </Button>
+      <Button onClick={onSend} size="icon" className="h-8 w-8 shrink-0" title="Transcribe">
+        <Check className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * @description Blinking caret at the end of a streaming message
+ */
+function TypingCursor() {
+  return (
+    <span
+      aria-hidden
+      className="ml-0.5 inline-block h-[1em] w-0.5 translate-y-[0.15em] animate-pulse bg-current"
+    />
+  )
+}
+
+/**
+ * @description Small icon button in a message's action bar
+ */
+function MessageAction({
+  title,
+  onClick,
+  disabled,
+  children,
+}: {
+  title: string
+  onClick: () => void
+  disabled?: boolean
+  children: React.ReactNode
+}) {
+  return (
+    <Button
+      onClick={onClick}
+      disabled={disabled}
+      size="icon"
+      variant="ghost"
+      className="h-6 w-6 text-muted-foreground"
+      title={title}
+      aria-label={title}
+    >
+      {children}
+    </Button>
+  )
 }
 
 /**
  * @description Message bubble component
+ * Memoized, so scrolling and streaming don't re-render the rest of the conversation
  */
-function MessageBubble({ message, isUser }: { message: AIFormMessage; isUser: boolean }) {
+const MessageBubble = React.memo(function MessageBubble({
+  message,
+  index,
+  isUser,
+  isStreaming = false,
+  canRegenerate = false,
+  disabled = false,
+  onEdit,
+  onRegenerate,
+  onDelete,
+}: {
+  message: ChatMessage
+  index: number
+  isUser: boolean
+  isStreaming?: boolean
+  /**
+   * @description Whether this is the assistant reply that can be regenerated
+   */
+  canRegenerate?: boolean
+  /**
+   * @description Disable actions that send to the AI, e.g. while it is replying
+   */
+  disabled?: boolean
+  onEdit?: ChatViewProps['onEditMessage']
+  onRegenerate?: ChatViewProps['onRegenerate']
+  onDelete?: ChatViewProps['onDeleteMessage']
+}) {
+  const [copied, setCopied] = React.useState(false)
+  // Draft of the edited message, null when not editing
+  const [draft, setDraft] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!copied) return
+    const timeout = setTimeout(() => setCopied(false), 2000)
+    return () => clearTimeout(timeout)
+  }, [copied])
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(message.content)
+      setCopied(true)
+    } catch (error) {
+      console.warn('Failed to copy message:', error)
+    }
+  }
+
+  const submitEdit = () => {
+    const content = draft?.trim()
+    if (!content || disabled) return
+    setDraft(null)
+    onEdit?.(index, content, message)
+  }
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      submitEdit()
+    } else if (e.key === 'Escape') {
+      setDraft(null)
+    }
+  }
+
+  if (draft !== null) {
+    return (
+      <div className="flex w-full flex-col items-end gap-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleEditKeyDown}
+          autoFocus
+          aria-label="Edit message"
+          className="max-w-[85%] resize-none text-sm"
+        />
+        <div className="flex gap-2">
+          <Button onClick={() => setDraft(null)} size="sm" variant="ghost">
+            Cancel
+          </Button>
+          <Button onClick={submitEdit} size="sm" disabled={!draft.trim() || disabled}>
+            <Send className="h-3.5 w-3.5" />
+            Send
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
   return (
-    <div className={cn('flex w-full', isUser ? 'justify-end' : 'justify-start')}>
+    <div className={cn('group flex w-full flex-col gap-1', isUser ? 'items-end' : 'items-start')}>
       <div
+        aria-busy={isStreaming || undefined}
         className={cn(
           'max-w-[85%] rounded-2xl px-4 py-2.5 text-sm',
           isUser
@@ -163,7 +544,11 @@ function MessageBubble({ message, isUser }: { message: AIFormMessage; isUser: bo
             : 'bg-muted text-muted-foreground rounded-bl-md'
         )}
       >
-        <div className="whitespace-pre-wrap wrap-break-word">{renderMarkdown(message.content)}</div>
+        <Markdown
+          content={message.content}
+          className="wrap-break-word"
+          trailing={isStreaming ? <TypingCursor /> : undefined}
+        />
         {message.timestamp && (
           <span className="mt-1 block text-[10px] opacity-60">
             {new Date(message.timestamp).toLocaleTimeString([], {
@@ -173,9 +558,41 @@ function MessageBubble({ message, isUser }: { message: AIFormMessage; isUser: bo
           </span>
         )}
       </div>
+
+      {/* Actions, shown on hover or focus (always on touch screens) */}
+      {!isStreaming && (
+        <div className="flex gap-0.5 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100 [@media(hover:none)]:opacity-100">
+          <MessageAction title={copied ? 'Copied' : 'Copy message'} onClick={copy}>
+            {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+          </MessageAction>
+          {isUser && onEdit && (
+            <MessageAction
+              title="Edit and resend"
+              onClick={() => setDraft(message.content)}
+              disabled={disabled}
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </MessageAction>
+          )}
+          {canRegenerate && onRegenerate && (
+            <MessageAction title="Regenerate reply" onClick={onRegenerate} disabled={disabled}>
+              <RefreshCw className="h-3.5 w-3.5" />
+            </MessageAction>
+          )}
+          {onDelete && (
+            <MessageAction
+              title="Delete message"
+              onClick={() => onDelete(index, message)}
+              disabled={disabled}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </MessageAction>
+          )}
+        </div>
+      )}
     </div>
   )
-}
+})
 
 /**
  * @description Full chat UI for AI form filling with optional voice input
@@ -190,26 +607,39 @@ function MessageBubble({ message, isUser }: { message: AIFormMessage; isUser: bo
 export function ChatView({
   messages,
   status,
+  streamingContent,
   onSend,
+  onEditMessage,
+  onRegenerate,
+  onDeleteMessage,
   className,
   placeholder = 'Describe what you want to fill in...',
   enableVoice = false,
   voiceEndpoint = '/api/speech-to-text',
+  voiceStreaming = false,
+  voicePreprocessing,
+  autoStopOnSilenceMs,
+  maxRecordingSeconds,
+  reviewVoiceNotes = false,
+  enableAttachments = false,
+  acceptAttachments = DEFAULT_ACCEPT_ATTACHMENTS,
+  maxAttachmentSize = DEFAULT_MAX_ATTACHMENT_SIZE,
+  maxAttachments = DEFAULT_MAX_ATTACHMENTS,
   maxHeight,
 }: ChatViewProps) {
   const [input, setInput] = React.useState('')
   const messagesContainerRef = React.useRef<HTMLDivElement>(null)
   const textareaRef = React.useRef<HTMLTextAreaElement>(null)
 
-  // Voice recording state
-  const [isRecording, setIsRecording] = React.useState(false)
-  const [isProcessingAudio, setIsProcessingAudio] = React.useState(false)
-  const [mediaRecorder, setMediaRecorder] = React.useState<MediaRecorder | null>(null)
-  const audioChunksRef = React.useRef<Blob[]>([])
-
   // Speech-to-text hook
-  const { transcribe, isLoading: isTranscribing } = useSpeechToText({
+  const {
+    transcribe,
+    abort: abortTranscription,
+    isLoading: isTranscribing,
+    partialText,
+  } = useSpeechToText({
     endpoint: voiceEndpoint,
+    stream: voiceStreaming,
     onSuccess: (data) => {
       if (data.text.trim()) {
         // Append transcribed text to input
@@ -219,108 +649,202 @@ export function ChatView({
     },
   })
 
-  // Auto-scroll to bottom when messages change
-  React.useEffect(() => {
-    if (messagesContainerRef.current) {
-      messagesContainerRef.current.scrollTo({
-        top: messagesContainerRef.current.scrollHeight,
-        behavior: 'smooth',
-      })
-    }
-  }, [messages])
+  // Scroll lock - the conversation follows new content only while scrolled to the bottom
+  const isPinnedRef = React.useRef(true)
+  const lastScrollTopRef = React.useRef(0)
+  const [isAtBottom, setIsAtBottom] = React.useState(true)
+  const [unseenCount, setUnseenCount] = React.useState(0)
 
-  // Scroll to bottom on initial mount (instant, no animation)
-  React.useEffect(() => {
-    if (messagesContainerRef.current) {
-      messagesContainerRef.current.scrollTop = messagesContainerRef.current.scrollHeight
-    }
+  const scrollToBottom = React.useCallback((behavior: ScrollBehavior = 'auto') => {
+    const container = messagesContainerRef.current
+    container?.scrollTo({ top: container.scrollHeight, behavior })
   }, [])
 
-  // Start recording
-  const startRecording = React.useCallback(async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+  const handleScroll = React.useCallback(() => {
+    const container = messagesContainerRef.current
+    if (!container) return
 
-      // Detect supported audio format (Safari doesn't support webm)
-      const mimeType = getSupportedMimeType()
-      const recorder = mimeType
-        ? new MediaRecorder(stream, { mimeType })
-        : new MediaRecorder(stream)
+    const atBottom =
+      container.scrollHeight - container.scrollTop - container.clientHeight <=
+      SCROLL_LOCK_THRESHOLD_PX
+    // Only scrolling up releases the lock, so smooth scrolls to the bottom keep it
+    if (atBottom) isPinnedRef.current = true
+    else if (container.scrollTop < lastScrollTopRef.current) isPinnedRef.current = false
+    lastScrollTopRef.current = container.scrollTop
 
-      audioChunksRef.current = []
+    setIsAtBottom(atBottom)
+    if (atBottom) setUnseenCount(0)
+  }, [])
 
-      recorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data)
-        }
-      }
+  const jumpToLatest = React.useCallback(() => {
+    isPinnedRef.current = true
+    setUnseenCount(0)
+    scrollToBottom('smooth')
+  }, [scrollToBottom])
 
-      recorder.onstop = async () => {
-        // Stop all tracks
-        stream.getTracks().forEach((track) => track.stop())
-
-        // Clear recorder state after it's fully stopped
-        setMediaRecorder(null)
-
-        // Create audio file from chunks
-        if (audioChunksRef.current.length > 0) {
-          setIsProcessingAudio(true)
-          try {
-            const actualMimeType = recorder.mimeType || mimeType || 'audio/webm'
-            const audioBlob = new Blob(audioChunksRef.current, { type: actualMimeType })
-
-            // Convert to WAV for maximum compatibility with OpenAI transcription
-            // This ensures iOS/Safari recordings work correctly
-            let audioFile: File
-            try {
-              const wavBlob = await convertToWav(audioBlob)
-              audioFile = new File([wavBlob], 'recording.wav', { type: 'audio/wav' })
-            } catch (conversionError) {
-              // Fallback to original format if conversion fails
-              console.warn('WAV conversion failed, using original format:', conversionError)
-              const extension = getExtensionForMimeType(actualMimeType)
-              audioFile = new File([audioBlob], `recording.${extension}`, { type: actualMimeType })
-            }
-
-            // Transcribe the audio
-            await transcribe({ audio: audioFile })
-          } finally {
-            setIsProcessingAudio(false)
-          }
-        }
-      }
+  // Windowed rendering, so long conversations only render messages near the viewport
+  const {
+    listRef,
+    items: visibleMessages,
+    totalSize,
+    paddingTop,
+    paddingBottom,
+    measureElement,
+  } = useVirtualList({
+    count: messages.length,
+    getKey: (index) => getMessageId(messages[index]),
+    scrollRef: messagesContainerRef,
+  })
 
-      recorder.start()
-      setMediaRecorder(recorder)
-      setIsRecording(true)
-    } catch (error) {
-      console.error('Failed to start recording:', error)
-    }
-  }, [transcribe])
+  // Count messages that arrive while the user reads history
+  const messageCountRef = React.useRef(messages.length)
+  React.useEffect(() => {
+    const added = messages.length - messageCountRef.current
+    messageCountRef.current = messages.length
+    if (added <= 0) return
 
-  // Stop recording
-  const stopRecording = React.useCallback(() => {
-    if (mediaRecorder && mediaRecorder.state !== 'inactive') {
-      mediaRecorder.stop()
-    }
-    setIsRecording(false)
-    // Note: setMediaRecorder(null) is now called in onstop callback
-    // to avoid race conditions
-  }, [mediaRecorder])
+    // Sending a message always jumps back to the latest
+    if (messages[messages.length - 1]?.role === 'user') isPinnedRef.current = true
+    if (!isPinnedRef.current) setUnseenCount((count) => count + added)
+  }, [messages])
+
+  // While pinned, stay at the bottom as content grows (new messages, streamed tokens,
+  // measured heights); instant, as smooth scrolling can't keep up with every token
+  React.useEffect(() => {
+    if (isPinnedRef.current) scrollToBottom()
+  }, [messages, totalSize, streamingContent, status, scrollToBottom])
+
+  // Voice note waiting for review (reviewVoiceNotes)
+  const [pendingVoiceNote, setPendingVoiceNote] = React.useState<File | null>(null)
+
+  // Voice recording - finished recordings are reviewed or transcribed straight away
+  const {
+    isRecording,
+    isProcessing: isProcessingAudio,
+    mediaRecorder,
+    elapsedMs: recordingElapsedMs,
+    permission: micPermission,
+    errorCode: micErrorCode,
+    devices: micDevices,
+    deviceId: micDeviceId,
+    setDeviceId: setMicDeviceId,
+    start: startRecording,
+    stop: stopRecording,
+    cancel: cancelRecording,
+    reset: resetRecorder,
+  } = useAudioRecorder({
+    preprocessing: voicePreprocessing,
+    // The recording UI doesn't show the input level, so skip its re-renders
+    levelMeter: false,
+    autoStopOnSilenceMs,
+    maxDurationSeconds: maxRecordingSeconds,
+    onRecordingComplete: (audio) =>
+      reviewVoiceNotes ? setPendingVoiceNote(audio) : transcribe({ audio }),
+  })
+
+  const sendVoiceNote = React.useCallback(() => {
+    if (!pendingVoiceNote) return
+    setPendingVoiceNote(null)
+    transcribe({ audio: pendingVoiceNote })
+  }, [pendingVoiceNote, transcribe])
+
+  const reRecordVoiceNote = React.useCallback(() => {
+    setPendingVoiceNote(null)
+    startRecording()
+  }, [startRecording])
+
+  // Cancel processing/transcription - aborts the request so the server stops the provider call
+  const cancelVoice = React.useCallback(() => {
+    cancelRecording()
+    abortTranscription()
+  }, [cancelRecording, abortTranscription])
 
   // Toggle recording
   const toggleRecording = React.useCallback(() => {
     if (isRecording) {
       stopRecording()
     } else {
+      setPendingVoiceNote(null)
       startRecording()
     }
   }, [isRecording, startRecording, stopRecording])
 
+  // Files attached to the next message (enableAttachments)
+  const [attachments, setAttachments] = React.useState<{ id: number; file: File }[]>([])
+  const [attachmentError, setAttachmentError] = React.useState<string | null>(null)
+  const [isDraggingFiles, setIsDraggingFiles] = React.useState(false)
+  const fileInputRef = React.useRef<HTMLInputElement>(null)
+  const nextAttachmentIdRef = React.useRef(0)
+
+  // Validate type, size and count, keeping the valid files and explaining the rest
+  const addAttachments = (files: File[]) => {
+    if (!enableAttachments || files.length === 0) return
+
+    const added: { id: number; file: File }[] = []
+    const errors: string[] = []
+    for (const file of files) {
+      if (!isAcceptedFile(file, acceptAttachments)) {
+        errors.push(`${file.name} is not a supported file type`)
+      } else if (file.size > maxAttachmentSize) {
+        errors.push(`${file.name} is larger than ${formatFileSize(maxAttachmentSize)}`)
+      } else {
+        added.push({ id: nextAttachmentIdRef.current++, file })
+      }
+    }
+
+    if (attachments.length + added.length > maxAttachments) {
+      errors.push(`You can attach up to ${maxAttachments} files`)
+    }
+
+    // Cap against the latest list, so two adds in the same tick can't both fill the last slot
+    setAttachments((current) => [...current, ...added].slice(0, maxAttachments))
+    setAttachmentError(errors.length > 0 ? errors.join('. ') : null)
+  }
+
+  const removeAttachment = (id: number) => {
+    setAttachments((current) => current.filter((attachment) => attachment.id !== id))
+    setAttachmentError(null)
+  }
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addAttachments(Array.from(e.target.files ?? []))
+    // Allow picking the same file again after removing it
+    e.target.value = ''
+  }
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files)
+    if (!enableAttachments || files.length === 0) return
+    e.preventDefault()
+    addAttachments(files)
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!enableAttachments || !e.dataTransfer.types.includes('Files')) return
+    e.preventDefault()
+    setIsDraggingFiles(true)
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore moves between children of the drop area
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!enableAttachments) return
+    e.preventDefault()
+    setIsDraggingFiles(false)
+    addAttachments(Array.from(e.dataTransfer.files))
+  }
+
   const handleSend = () => {
-    if (input.trim() && status !== 'filling') {
-      onSend(input.trim())
+    const message = input.trim()
+    if ((message || attachments.length > 0) && status !== 'filling') {
+      const files = attachments.map((attachment) => attachment.file)
+      onSend(message, files)
       setInput('')
+      setAttachments([])
+      setAttachmentError(null)
       textareaRef.current?.focus()
     }
   }
@@ -333,38 +857,98 @@ export function ChatView({
   }
 
   const isLoading = status === 'filling'
-  const hasMessages = messages.length > 0
+  const isStreaming = Boolean(streamingContent)
+  const hasMessages = messages.length > 0 || isStreaming
   const isVoiceProcessing = isRecording || isProcessingAudio || isTranscribing
+  const remainingRecordingSeconds =
+    maxRecordingSeconds !== undefined
+      ? Math.ceil(maxRecordingSeconds - recordingElapsedMs / 1000)
+      : null
 
   return (
-    <div className={cn('flex flex-col', className)}>
+    <div
+      className={cn('relative flex flex-col', className)}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Drop zone */}
+      {isDraggingFiles && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center gap-2 rounded-[inherit] border-2 border-dashed border-primary bg-background/80 text-sm font-medium text-primary backdrop-blur-sm">
+          <Paperclip className="h-4 w-4" />
+          Drop files to attach
+        </div>
+      )}
+
       {/* Messages container */}
-      <div
-        ref={messagesContainerRef}
-        className="flex-1 overflow-y-auto p-4 space-y-3"
-        style={maxHeight ? { maxHeight, overflowY: 'auto' } : undefined}
-      >
-        {!hasMessages && (
-          <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground">
-            <Sparkles className="h-8 w-8 mb-3 text-primary/50" />
-            <p className="text-sm font-medium">AI Form Assistant</p>
-            <p className="text-xs mt-1">
-              Describe what you want to fill and I&apos;ll help you complete the form.
-            </p>
+      <div className="relative flex min-h-0 flex-1 flex-col">
+        <div
+          ref={messagesContainerRef}
+          onScroll={handleScroll}
+          className="flex-1 overflow-y-auto p-4"
+          style={maxHeight ? { maxHeight, overflowY: 'auto' } : undefined}
+        >
+          {!hasMessages && (
+            <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground">
+              <Sparkles className="h-8 w-8 mb-3 text-primary/50" />
+              <p className="text-sm font-medium">AI Form Assistant</p>
+              <p className="text-xs mt-1">
+                Describe what you want to fill and I&apos;ll help you complete the form.
+              </p>
+            </div>
+          )}
+
+          <div ref={listRef} style={{ paddingTop, paddingBottom }}>
+            {visibleMessages.map(({ index, key }) => (
+              <div key={key} ref={measureElement} data-key={key} className="pb-3">
+                <MessageBubble
+                  message={messages[index]}
+                  index={index}
+                  isUser={messages[index].role === 'user'}
+                  canRegenerate={
+                    index === messages.length - 1 && messages[index].role === 'assistant'
+                  }
+                  disabled={isLoading}
+                  onEdit={onEditMessage}
+                  onRegenerate={onRegenerate}
+                  onDelete={onDeleteMessage}
+                />
+              </div>
+            ))}
           </div>
-        )}
 
-        {messages.map((message, index) => (
-          <MessageBubble key={index} message={message} isUser={message.role === 'user'} />
-        ))}
+          {/* Reply streaming in */}
+          {isStreaming && (
+            <MessageBubble
+              message={{ role: 'assistant', content: streamingContent ?? '' }}
+              index={messages.length}
+              isUser={false}
+              isStreaming
+            />
+          )}
 
-        {/* Loading indicator */}
-        {isLoading && (
-          <div className="flex w-full justify-start">
-            <div className="rounded-2xl rounded-bl-md bg-muted px-4 py-3">
-              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          {/* Loading indicator */}
+          {isLoading && !isStreaming && (
+            <div className="flex w-full justify-start">
+              <div className="rounded-2xl rounded-bl-md bg-muted px-4 py-3">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
             </div>
-          </div>
+          )}
+        </div>
+
+        {/* Jump back to the latest message after scrolling up */}
+        {hasMessages && !isAtBottom && (
+          <Button
+            onClick={jumpToLatest}
+            size="sm"
+            className="absolute bottom-3 left-1/2 h-7 -translate-x-1/2 rounded-full text-xs shadow-md"
+          >
+            <ArrowDown className="h-3.5 w-3.5" />
+            {unseenCount > 0
+              ? `${unseenCount} new message${unseenCount === 1 ? '' : 's'}`
+              : 'Jump to latest'}
+          </Button>
         )}
       </div>
 
@@ -387,51 +971,166 @@ export function ChatView({
             mediaRecorder={mediaRecorder}
             width={200}
             height={40}
-            barColor="hsl(var(--primary))"
+            barColor="var(--primary)"
           />
-          <span className="text-xs text-muted-foreground">Recording...</span>
+          <span className="text-xs text-muted-foreground">
+            {autoStopOnSilenceMs !== undefined ? 'Listening... pause to finish' : 'Recording...'}
+          </span>
+          <span className="text-xs tabular-nums text-muted-foreground">
+            {formatDuration(recordingElapsedMs / 1000)}
+            {remainingRecordingSeconds !== null && (
+              <span className={cn(remainingRecordingSeconds <= 10 && 'text-destructive')}>
+                {' '}
+                · {formatDuration(remainingRecordingSeconds)} left
+              </span>
+            )}
+          </span>
         </div>
       )}
 
+      {/* Voice note review */}
+      {enableVoice && pendingVoiceNote && !isRecording && (
+        <VoiceNoteReview
+          audio={pendingVoiceNote}
+          onSend={sendVoiceNote}
+          onDiscard={() => setPendingVoiceNote(null)}
+          onReRecord={reRecordVoiceNote}
+        />
+      )}
+
       {/* Processing/Transcribing indicator */}
       {enableVoice && (isProcessingAudio || isTranscribing) && !isRecording && (
         <div className="flex items-center justify-center gap-2 px-4 py-2 border-t bg-muted/50">
-          <Loader2 className="h-4 w-4 animate-spin text-primary" />
+          <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" />
           <span className="text-xs text-muted-foreground">
-            {isProcessingAudio ? 'Processing audio...' : 'Transcribing...'}
+            {isProcessingAudio ? 'Processing audio...' : partialText || 'Transcribing...'}
           </span>
+          <Button
+            onClick={cancelVoice}
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6 shrink-0"
+            title="Cancel transcription"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+
+      {/* Microphone error/help */}
+      {enableVoice && micErrorCode && (
+        <div className="border-t px-4 py-2">
+          <Alert variant="destructive" className="pr-10">
+            <MicOff />
+            <AlertTitle>{MICROPHONE_ERROR_HELP[micErrorCode].title}</AlertTitle>
+            <AlertDescription>{MICROPHONE_ERROR_HELP[micErrorCode].description}</AlertDescription>
+            <Button
+              onClick={resetRecorder}
+              size="icon"
+              variant="ghost"
+              className="absolute -right-8 -top-1 h-6 w-6"
+              title="Dismiss"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </Alert>
         </div>
       )}
 
       {/* Input area */}
       <div className="border-t p-4">
+        {/* Attachments */}
+        {attachmentError && (
+          <p role="alert" className="mb-2 text-xs text-destructive">
+            {attachmentError}
+          </p>
+        )}
+        {attachments.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-2">
+            {attachments.map((attachment) => (
+              <AttachmentChip
+                key={attachment.id}
+                file={attachment.file}
+                onRemove={() => removeAttachment(attachment.id)}
+              />
+            ))}
+          </div>
+        )}
+
         <div className="flex items-center gap-2">
+          {/* Input device picker - only useful with more than one microphone */}
+          {enableVoice && micDevices.length > 1 && !isVoiceProcessing && (
+            <Select value={micDeviceId ?? micDevices[0].deviceId} onValueChange={setMicDeviceId}>
+              <SelectTrigger size="sm" className="w-32 shrink-0" title="Microphone">
+                <SelectValue placeholder="Microphone" />
+              </SelectTrigger>
+              <SelectContent>
+                {micDevices.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Microphone ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
           {/* Voice button */}
           {enableVoice && (
             <Button
               onClick={toggleRecording}
-              disabled={isLoading || isTranscribing}
+              disabled={isLoading || isTranscribing || isProcessingAudio}
               size="icon"
               variant={isRecording ? 'destructive' : 'outline'}
               className="shrink-0"
-              title={isRecording ? 'Stop recording' : 'Start voice input'}
+              title={
+                isRecording
+                  ? 'Stop recording'
+                  : micPermission === 'denied'
+                    ? 'Microphone access is blocked'
+                    : 'Start voice input'
+              }
             >
               {isRecording ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
             </Button>
           )}
 
+          {/* Attach button */}
+          {enableAttachments && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={acceptAttachments}
+                onChange={handleFileInputChange}
+                className="hidden"
+              />
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={attachments.length >= maxAttachments}
+                size="icon"
+                variant="outline"
+                className="shrink-0"
+                title="Attach files"
+              >
+                <Paperclip className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+
           <Textarea
             ref={textareaRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
             placeholder={placeholder}
             disabled={isLoading || isVoiceProcessing}
             className="min-h-11 max-h-32 resize-none"
           />
           <Button
             onClick={handleSend}
-            disabled={!input.trim() || isLoading || isVoiceProcessing}
+            disabled={(!input.trim() && attachments.length === 0) || isLoading || isVoiceProcessing}
             size="icon"
             className="shrink-0"
           >
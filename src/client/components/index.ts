@@ -1,4 +1,6 @@
 export * from './audio-visualizer'
+export * from './audio-waveform'
 export * from './chat-view'
 export * from './form-builder'
+export * from './markdown'
 export * from './ui'
@@ -0,0 +1,301 @@
+'use client'
+
+import * as React from 'react'
+
+import { cn } from '../../utils'
+import {
+  isImageAllowed,
+  type MarkdownBlock,
+  type MarkdownInline,
+  type MarkdownTableAlign,
+  parseMarkdown,
+} from '../utils/markdown'
+
+export type { MarkdownBlock, MarkdownInline }
+
+/**
+ * @description Props for Markdown component
+ */
+export interface MarkdownProps {
+  /**
+   * @description Markdown source
+   */
+  content: string
+  /**
+   * @description Optional className for container
+   */
+  className?: string
+  /**
+   * @description Render single line breaks as <br>, as chat messages expect
+   * When false, they are spaces as in CommonMark
+   * @default true
+   */
+  breaks?: boolean
+  /**
+   * @description Content rendered at the end of the last block, e.g. a typing cursor
+   */
+  trailing?: React.ReactNode
+  /**
+   * @description Load images: true for any URL, or the origins they may load from
+   * (e.g. ['https://cdn.example.com']). Remote images load without a click and reveal the
+   * reader's IP to their host, so other images are shown as links
+   * @default false
+   */
+  allowImages?: boolean | string[]
+}
+
+interface RenderOptions {
+  breaks: boolean
+  allowImages: boolean | string[]
+}
+
+/**
+ * @description Safe markdown renderer (CommonMark with GFM tables, task lists and strikethrough)
+ * Builds React elements from a parsed tree, so raw HTML in the content is shown as text and
+ * can't inject markup. Links with unsafe protocols are dropped, and the rest open in a new tab
+ * without access to the opener. Images render as links unless allowed with `allowImages`.
+ * Colors inherit from the container, so it works in both light and dark message bubbles.
+ * @example
+ * <Markdown content={message.content} />
+ */
+export function Markdown({
+  content,
+  className,
+  breaks = true,
+  trailing,
+  allowImages = false,
+}: MarkdownProps) {
+  const blocks = React.useMemo(() => parseMarkdown(content), [content])
+  const options = { breaks, allowImages }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {blocks.length > 0 ? renderBlocks(blocks, options, false, trailing) : trailing}
+    </div>
+  )
+}
+
+const HEADING_CLASS_NAMES = {
+  1: 'text-lg font-semibold',
+  2: 'text-base font-semibold',
+  3: 'font-semibold',
+  4: 'font-semibold',
+  5: 'font-medium',
+  6: 'font-medium opacity-80',
+} as const
+
+function renderBlocks(
+  blocks: MarkdownBlock[],
+  options: RenderOptions,
+  tight = false,
+  trailing?: React.ReactNode
+): React.ReactNode {
+  return blocks.map((block, index) => {
+    // Only the last block carries the trailing content
+    const end = index === blocks.length - 1 ? trailing : undefined
+
+    switch (block.type) {
+      case 'paragraph':
+        // Tight list items keep their text inline, without paragraph spacing
+        return tight ? (
+          <React.Fragment key={index}>
+            {renderInlines(block.children, options)}
+            {end}
+          </React.Fragment>
+        ) : (
+          <p key={index}>
+            {renderInlines(block.children, options)}
+            {end}
+          </p>
+        )
+      case 'heading': {
+        const Heading = `h${block.level}` as const
+        return (
+          <Heading key={index} className={HEADING_CLASS_NAMES[block.level]}>
+            {renderInlines(block.children, options)}
+            {end}
+          </Heading>
+        )
+      }
+      case 'code':
+        return (
+          <pre
+            key={index}
+            className="overflow-x-auto rounded-lg border border-current/10 bg-foreground/5 p-3 font-mono text-xs backdrop-blur-sm"
+          >
+            <code className={block.language ? `language-${block.language}` : undefined}>
+              {block.text}
+              {end}
+            </code>
+          </pre>
+        )
+      case 'blockquote':
+        return (
+          <blockquote
+            key={index}
+            className="space-y-2 border-l-2 border-current/30 pl-3 opacity-90"
+          >
+            {renderBlocks(block.children, options, false, end)}
+          </blockquote>
+        )
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul'
+        const isTaskList = block.items.some((item) => item.checked !== undefined)
+        return (
+          <List
+            key={index}
+            start={block.ordered && block.start !== 1 ? block.start : undefined}
+            className={cn(
+              'pl-5',
+              block.ordered ? 'list-decimal' : 'list-disc',
+              isTaskList && 'list-none pl-1',
+              block.tight ? 'space-y-0.5' : 'space-y-2'
+            )}
+          >
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex} className={cn(!block.tight && 'space-y-2')}>
+                {item.checked !== undefined && (
+                  <input
+                    type="checkbox"
+                    checked={item.checked}
+                    disabled
+                    readOnly
+                    className="mr-1.5 align-middle"
+                  />
+                )}
+                {renderBlocks(
+                  item.children,
+                  options,
+                  block.tight,
+                  itemIndex === block.items.length - 1 ? end : undefined
+                )}
+              </li>
+            ))}
+          </List>
+        )
+      }
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th
+                      key={column}
+                      style={getAlignStyle(block.align[column])}
+                      className="border border-current/20 bg-foreground/5 px-2 py-1 font-semibold"
+                    >
+                      {renderInlines(cell, options)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td
+                        key={column}
+                        style={getAlignStyle(block.align[column])}
+                        className="border border-current/20 px-2 py-1"
+                      >
+                        {renderInlines(cell, options)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {end}
+          </div>
+        )
+      case 'thematicBreak':
+        return (
+          <React.Fragment key={index}>
+            <hr className="border-current/20" />
+            {end}
+          </React.Fragment>
+        )
+    }
+  })
+}
+
+function renderInlines(nodes: MarkdownInline[], options: RenderOptions): React.ReactNode {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>
+      case 'code':
+        return (
+          <code
+            key={index}
+            className="rounded bg-foreground/10 px-1 py-0.5 font-mono text-[0.85em]"
+          >
+            {node.text}
+          </code>
+        )
+      case 'emphasis':
+        return (
+          <em key={index} className="italic">
+            {renderInlines(node.children, options)}
+          </em>
+        )
+      case 'strong':
+        return (
+          <strong key={index} className="font-semibold">
+            {renderInlines(node.children, options)}
+          </strong>
+        )
+      case 'strikethrough':
+        return <del key={index}>{renderInlines(node.children, options)}</del>
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            title={node.title}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2 hover:opacity-80"
+          >
+            {renderInlines(node.children, options)}
+          </a>
+        )
+      case 'image':
+        if (!isImageAllowed(node.src, options.allowImages)) {
+          return (
+            <a
+              key={index}
+              href={node.src}
+              title={node.title}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="underline underline-offset-2 hover:opacity-80"
+            >
+              {node.alt || node.src}
+            </a>
+          )
+        }
+        return (
+          <img
+            key={index}
+            src={node.src}
+            alt={node.alt}
+            title={node.title}
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            className="inline-block max-w-full rounded-lg"
+          />
+        )
+      case 'break':
+        return <br key={index} />
+      case 'softbreak':
+        return options.breaks ? <br key={index} /> : ' '
+    }
+  })
+}
+
+function getAlignStyle(align: MarkdownTableAlign): React.CSSProperties | undefined {
+  return align ? { textAlign: align } : undefined
+}
@@ -1,2 +1,5 @@
+export * from './use-audio-recorder'
 export * from './use-cookie-with-fallback'
 export * from './use-speech-to-text'
+export * from './use-virtual-list'
+export * from './use-voice-activity'
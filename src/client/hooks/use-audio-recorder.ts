@@ -0,0 +1,438 @@
+'use client'
+
+import * as React from 'react'
+
+import type { AudioPreprocessingOptions } from '../utils/audio-preprocessing'
+import { convertToWav, getExtensionForMimeType, getSupportedMimeType } from '../utils/audio-utils'
+import { useVoiceActivity } from './use-voice-activity'
+
+/**
+ * @description Recorder lifecycle status
+ * 'requesting' while waiting for microphone access, 'processing' while the file is being encoded
+ */
+export type AudioRecorderStatus = 'idle' | 'requesting' | 'recording' | 'paused' | 'processing'
+
+/**
+ * @description Microphone permission state
+ * 'unsupported' when the browser has no getUserMedia (e.g. insecure context)
+ */
+export type MicrophonePermission = 'prompt' | 'granted' | 'denied' | 'unsupported'
+
+/**
+ * @description Why the microphone couldn't be opened
+ */
+export type MicrophoneErrorCode =
+  'PERMISSION_DENIED' | 'NO_DEVICE' | 'DEVICE_BUSY' | 'UNSUPPORTED' | 'UNKNOWN'
+
+/**
+ * @description Options for useAudioRecorder hook
+ */
+export interface UseAudioRecorderOptions {
+  /**
+   * @description Callback with the finished recording
+   * Not called for cancelled or empty recordings
+   */
+  onRecordingComplete?: (file: File) => void
+  /**
+   * @description Convert recordings to WAV, which every transcription provider accepts
+   * Falls back to the recorded format if conversion fails
+   * @default true
+   */
+  convertToWav?: boolean
+  /**
+   * @description Preprocessing applied before WAV encoding, or false to encode the audio as-is
+   * @default {}
+   */
+  preprocessing?: AudioPreprocessingOptions | false
+  /**
+   * @description Stop automatically after this many milliseconds of silence following speech
+   * If not provided, recording only stops when stop() is called
+   */
+  autoStopOnSilenceMs?: number
+  /**
+   * @description Initial input device ID (from `devices`)
+   * If not provided, the system default microphone is used
+   */
+  deviceId?: string
+  /**
+   * @description Stop automatically once the recording reaches this length, in seconds
+   * The recording is kept and onRecordingComplete is called as usual
+   * If not provided, recordings have no length limit
+   */
+  maxDurationSeconds?: number
+  /**
+   * @description Update `level` while recording, for a live input meter
+   * Each update re-renders the component using the hook (20 times a second), so turn it off
+   * when `level` isn't displayed. `isSpeaking` and autoStopOnSilenceMs keep working.
+   * @default true
+   */
+  levelMeter?: boolean
+}
+
+/**
+ * @description State of one recording, from start() until its file is built
+ */
+interface RecordingSession {
+  /**
+   * @description Set by cancel() or unmount; the recording then releases its stream and
+   * produces no file
+   */
+  cancelled: boolean
+}
+
+/**
+ * @description Return type for useAudioRecorder hook
+ */
+export type UseAudioRecorderReturnType = ReturnType<typeof useAudioRecorder>
+
+const ELAPSED_INTERVAL_MS = 250
+
+/**
+ * @description Hook for capturing microphone audio as a File
+ * Handles the MediaRecorder lifecycle, format detection (Safari records mp4),
+ * WAV conversion, elapsed time, an input level meter, permission state and input device selection.
+ * @param options - Configuration options
+ * @returns Recorder state and controls
+ * @example
+ * const recorder = useAudioRecorder({
+ *   onRecordingComplete: (file) => transcribe({ audio: file }),
+ * })
+ *
+ * <Button onClick={recorder.isRecording ? recorder.stop : recorder.start}>
+ *   {recorder.isRecording ? `Stop (${Math.round(recorder.elapsedMs / 1000)}s)` : 'Record'}
+ * </Button>
+ * <AudioVisualizer isRecording={recorder.isRecording} mediaRecorder={recorder.mediaRecorder} />
+ */
+export function useAudioRecorder(options?: UseAudioRecorderOptions) {
+  const [status, setStatus] = React.useState<AudioRecorderStatus>('idle')
+  const [permission, setPermission] = React.useState<MicrophonePermission>('prompt')
+  const [mediaRecorder, setMediaRecorder] = React.useState<MediaRecorder | null>(null)
+  const [elapsedMs, setElapsedMs] = React.useState(0)
+  const [file, setFile] = React.useState<File | null>(null)
+  const [error, setError] = React.useState<Error | null>(null)
+  const [errorCode, setErrorCode] = React.useState<MicrophoneErrorCode | null>(null)
+  const [devices, setDevices] = React.useState<MediaDeviceInfo[]>([])
+  const [deviceId, setDeviceId] = React.useState<string | undefined>(options?.deviceId)
+
+  // Latest options, read when a recording finishes
+  const optionsRef = React.useRef(options)
+  React.useEffect(() => {
+    optionsRef.current = options
+  }, [options])
+
+  const recorderRef = React.useRef<MediaRecorder | null>(null)
+  // The recording in progress, from start() until its file is built. Each recording checks its
+  // own session, so a cancelled one can't touch the state of the next.
+  const sessionRef = React.useRef<RecordingSession | null>(null)
+  // Elapsed time excludes pauses: time banked before the last resume, plus the running segment
+  const accumulatedMsRef = React.useRef(0)
+  const segmentStartRef = React.useRef<number | null>(null)
+
+  const getElapsedMs = () =>
+    accumulatedMsRef.current +
+    (segmentStartRef.current !== null ? Date.now() - segmentStartRef.current : 0)
+
+  // Track the permission where the Permissions API knows about microphones
+  React.useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setPermission('unsupported')
+      return
+    }
+
+    let permissionStatus: PermissionStatus | null = null
+    const update = () => {
+      if (permissionStatus) setPermission(permissionStatus.state)
+    }
+
+    navigator.permissions
+      ?.query({ name: 'microphone' as PermissionName })
+      .then((result) => {
+        permissionStatus = result
+        update()
+        result.addEventListener('change', update)
+      })
+      // Firefox and older Safari don't support querying the microphone permission
+      .catch(() => {})
+
+    return () => permissionStatus?.removeEventListener('change', update)
+  }, [])
+
+  // Device labels are only exposed once permission is granted, so refresh after it changes
+  const refreshDevices = React.useCallback(async () => {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) return
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices()
+      setDevices(all.filter((device) => device.kind === 'audioinput' && device.deviceId))
+    } catch {
+      setDevices([])
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (permission === 'unsupported') return
+    refreshDevices()
+    navigator.mediaDevices.addEventListener?.('devicechange', refreshDevices)
+    return () => navigator.mediaDevices.removeEventListener?.('devicechange', refreshDevices)
+  }, [permission, refreshDevices])
+
+  const stop = React.useCallback(() => {
+    const recorder = recorderRef.current
+    if (!recorder || recorder.state === 'inactive') return
+
+    accumulatedMsRef.current = getElapsedMs()
+    segmentStartRef.current = null
+    setElapsedMs(accumulatedMsRef.current)
+    // The file is built in onstop
+    setStatus('processing')
+    recorder.stop()
+  }, [])
+
+  const start = React.useCallback(async () => {
+    // Also refuses while waiting for access or while the previous recording is processed
+    if (sessionRef.current) return
+
+    setError(null)
+    setErrorCode(null)
+    setFile(null)
+
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setError(new Error('Microphone access is not supported in this browser or context'))
+      setErrorCode('UNSUPPORTED')
+      return
+    }
+
+    const session: RecordingSession = { cancelled: false }
+    sessionRef.current = session
+    setStatus('requesting')
+
+    let stream: MediaStream
+    try {
+      stream = await getMicrophoneStream(deviceId)
+    } catch (err) {
+      if (session.cancelled) return
+      sessionRef.current = null
+      console.error('Failed to start recording:', err)
+      const code = getMicrophoneErrorCode(err)
+      if (code === 'PERMISSION_DENIED') setPermission('denied')
+      setError(err instanceof Error ? err : new Error('Failed to access microphone'))
+      setErrorCode(code)
+      setStatus('idle')
+      return
+    }
+    setPermission('granted')
+
+    // Cancelled or unmounted while waiting for access - release the microphone right away
+    if (session.cancelled) {
+      stream.getTracks().forEach((track) => track.stop())
+      return
+    }
+
+    // Detect supported audio format (Safari doesn't support webm)
+    const mimeType = getSupportedMimeType()
+    const recorder = mimeType ? new MediaRecorder(stream, { mimeType }) : new MediaRecorder(stream)
+    const chunks: Blob[] = []
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data)
+      }
+    }
+
+    // Go back to idle, unless this session was cancelled and a newer one has taken over
+    const finish = () => {
+      if (sessionRef.current !== session) return
+      sessionRef.current = null
+      setStatus('idle')
+    }
+
+    recorder.onstop = async () => {
+      // Stop all tracks so the browser's recording indicator goes away
+      stream.getTracks().forEach((track) => track.stop())
+      if (recorderRef.current === recorder) {
+        recorderRef.current = null
+        setMediaRecorder(null)
+      }
+
+      if (session.cancelled || chunks.length === 0) {
+        finish()
+        return
+      }
+
+      const actualMimeType = recorder.mimeType || mimeType || 'audio/webm'
+      const recording = await createRecordingFile(
+        new Blob(chunks, { type: actualMimeType }),
+        optionsRef.current
+      )
+
+      // The user may have cancelled during conversion
+      finish()
+      if (session.cancelled) return
+
+      setFile(recording)
+      optionsRef.current?.onRecordingComplete?.(recording)
+    }
+
+    recorder.start()
+    recorderRef.current = recorder
+    accumulatedMsRef.current = 0
+    segmentStartRef.current = Date.now()
+    setElapsedMs(0)
+    setMediaRecorder(recorder)
+    setStatus('recording')
+  }, [deviceId])
+
+  const pause = React.useCallback(() => {
+    const recorder = recorderRef.current
+    if (recorder?.state !== 'recording') return
+
+    recorder.pause()
+    accumulatedMsRef.current = getElapsedMs()
+    segmentStartRef.current = null
+    setElapsedMs(accumulatedMsRef.current)
+    setStatus('paused')
+  }, [])
+
+  const resume = React.useCallback(() => {
+    const recorder = recorderRef.current
+    if (recorder?.state !== 'paused') return
+
+    recorder.resume()
+    segmentStartRef.current = Date.now()
+    setStatus('recording')
+  }, [])
+
+  /**
+   * @description Stop without producing a file (also discards a file still being encoded)
+   */
+  const cancel = React.useCallback(() => {
+    if (sessionRef.current) sessionRef.current.cancelled = true
+    sessionRef.current = null
+    const recorder = recorderRef.current
+    if (recorder && recorder.state !== 'inactive') recorder.stop()
+    segmentStartRef.current = null
+    setStatus('idle')
+  }, [])
+
+  const reset = React.useCallback(() => {
+    cancel()
+    accumulatedMsRef.current = 0
+    setElapsedMs(0)
+    setFile(null)
+    setError(null)
+    setErrorCode(null)
+  }, [cancel])
+
+  // Tick the elapsed time while recording
+  React.useEffect(() => {
+    if (status !== 'recording') return
+    const interval = setInterval(() => setElapsedMs(getElapsedMs()), ELAPSED_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [status])
+
+  // Stop at the length limit; paused time doesn't count, so the timer restarts on resume
+  const maxDurationSeconds = options?.maxDurationSeconds
+  React.useEffect(() => {
+    if (status !== 'recording' || maxDurationSeconds === undefined) return
+    const timeout = setTimeout(stop, Math.max(0, maxDurationSeconds * 1000 - getElapsedMs()))
+    return () => clearTimeout(timeout)
+  }, [status, maxDurationSeconds, stop])
+
+  // Release the microphone on unmount
+  React.useEffect(
+    () => () => {
+      if (sessionRef.current) sessionRef.current.cancelled = true
+      sessionRef.current = null
+      if (recorderRef.current?.state !== 'inactive') recorderRef.current?.stop()
+    },
+    []
+  )
+
+  const { level, isSpeaking } = useVoiceActivity({
+    stream: status === 'recording' ? (mediaRecorder?.stream ?? null) : null,
+    silenceMs: options?.autoStopOnSilenceMs,
+    trackLevel: options?.levelMeter !== false,
+    onSilence: stop,
+  })
+
+  return {
+    status,
+    isRecording: status === 'recording',
+    isPaused: status === 'paused',
+    isProcessing: status === 'processing',
+    permission,
+    mediaRecorder,
+    elapsedMs,
+    level,
+    isSpeaking,
+    file,
+    error,
+    errorCode,
+    devices,
+    deviceId,
+    setDeviceId,
+    start,
+    stop,
+    pause,
+    resume,
+    cancel,
+    reset,
+  }
+}
+
+/**
+ * @description Open the microphone, falling back to the default one if the chosen device is gone
+ */
+async function getMicrophoneStream(deviceId?: string): Promise<MediaStream> {
+  if (!deviceId) return navigator.mediaDevices.getUserMedia({ audio: true })
+
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: { deviceId: { exact: deviceId } } })
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'OverconstrainedError') {
+      return navigator.mediaDevices.getUserMedia({ audio: true })
+    }
+    throw err
+  }
+}
+
+/**
+ * @description Map a getUserMedia failure to an error code
+ */
+function getMicrophoneErrorCode(error: unknown): MicrophoneErrorCode {
+  if (!(error instanceof DOMException)) return 'UNKNOWN'
+  switch (error.name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'PERMISSION_DENIED'
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'NO_DEVICE'
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'DEVICE_BUSY'
+    default:
+      return 'UNKNOWN'
+  }
+}
+
+/**
+ * @description Build the recording File, converting to WAV unless disabled
+ */
+async function createRecordingFile(
+  audioBlob: Blob,
+  options?: UseAudioRecorderOptions
+): Promise<File> {
+  if (options?.convertToWav !== false) {
+    // WAV ensures iOS/Safari recordings work with every transcription provider
+    try {
+      const wavBlob = await convertToWav(audioBlob, { preprocessing: options?.preprocessing })
+      return new File([wavBlob], 'recording.wav', { type: 'audio/wav' })
+    } catch (conversionError) {
+      // Fallback to original format if conversion fails
+      console.warn('WAV conversion failed, using original format:', conversionError)
+    }
+  }
+
+  const extension = getExtensionForMimeType(audioBlob.type)
+  return new File([audioBlob], `recording.${extension}`, { type: audioBlob.type })
+}
@@ -2,13 +2,22 @@
 
 import * as React from 'react'
 
+import { readServerSentEvents } from '../../speech-to-text/sse'
 import type {
+  SpeechToTextErrorCode,
   SpeechToTextErrorResponse,
   SpeechToTextRequest,
   SpeechToTextResponse,
+  SpeechToTextStreamEvent,
 } from '../../speech-to-text/types'
 
-export type { SpeechToTextErrorResponse, SpeechToTextRequest, SpeechToTextResponse }
+export type {
+  SpeechToTextErrorCode,
+  SpeechToTextErrorResponse,
+  SpeechToTextRequest,
+  SpeechToTextResponse,
+  SpeechToTextStreamEvent,
+}
 
 /**
  * @description Options for useSpeechToText hook
@@ -27,6 +36,17 @@ export interface UseSpeechToTextOptions {
    * @default '/api/speech-to-text'
    */
   endpoint?: string
+  /**
+   * @description Request a streaming response and expose partial text as it arrives
+   * Can be overridden per call with `request.stream`
+   * @default false
+   */
+  stream?: boolean
+  /**
+   * @description Cancel the request with a 'TIMEOUT' error after this many milliseconds
+   * If not provided, requests never time out on the client
+   */
+  timeoutMs?: number
 }
 
 /**
@@ -36,6 +56,78 @@ interface UseSpeechToTextState {
   data: SpeechToTextResponse | null
   error: SpeechToTextErrorResponse | null
   isLoading: boolean
+  partialText: string
+}
+
+const INITIAL_STATE: UseSpeechToTextState = {
+  data: null,
+  error: null,
+  isLoading: false,
+  partialText: '',
+}
+
+/**
+ * @description Result of a transcribe call
+ */
+type TranscribeResult =
+  { data: SpeechToTextResponse; error: null } | { data: null; error: SpeechToTextErrorResponse }
+
+/**
+ * @description Error codes for HTTP statuses, used when the server sends no code
+ */
+const STATUS_ERROR_CODES: Partial<Record<number, SpeechToTextErrorCode>> = {
+  401: 'UNAUTHORIZED',
+  408: 'TIMEOUT',
+  413: 'FILE_TOO_LARGE',
+  415: 'UNSUPPORTED_MEDIA_TYPE',
+  422: 'AUDIO_TOO_LONG',
+  429: 'RATE_LIMITED',
+  499: 'ABORTED',
+  504: 'TIMEOUT',
+}
+
+/**
+ * @description Read an error response, filling in a code for non-JSON or legacy payloads
+ */
+async function readErrorResponse(response: Response): Promise<SpeechToTextErrorResponse> {
+  const json = (await response
+    .json()
+    .catch(() => null)) as Partial<SpeechToTextErrorResponse> | null
+
+  return {
+    code: json?.code ?? STATUS_ERROR_CODES[response.status] ?? 'UNKNOWN',
+    error: json?.error ?? `Request failed with status ${response.status}`,
+    ...(json?.details && { details: json.details }),
+  }
+}
+
+/**
+ * @description Read a streaming speech-to-text response
+ * Calls onDelta with the accumulated text for each partial transcript event
+ */
+async function readTranscriptStream(
+  body: ReadableStream<Uint8Array>,
+  onDelta: (partialText: string) => void
+): Promise<TranscribeResult> {
+  let partialText = ''
+
+  for await (const raw of readServerSentEvents(body)) {
+    const event = JSON.parse(raw) as SpeechToTextStreamEvent
+
+    if (event.type === 'delta') {
+      partialText += event.delta
+      onDelta(partialText)
+    } else if (event.type === 'done') {
+      const { type: _type, ...data } = event
+      return { data, error: null }
+    } else {
+      const { type: _type, ...error } = event
+      return { data: null, error }
+    }
+  }
+
+  // Stream ended without a final event - use what we received
+  return { data: { text: partialText.trim() }, error: null }
 }
 
 /**
@@ -50,69 +142,151 @@ export type UseSpeechToTextReturnType = ReturnType<typeof useSpeechToText>
  * @example
  * const { transcribe, isLoading, data, error } = useSpeechToText({
  *   onSuccess: (result) => console.log('Transcribed:', result.text),
- *   onError: (err) => console.error('Error:', err.error),
+ *   onError: (err) => {
+ *     if (err.code === 'RATE_LIMITED') toast('Slow down a little')
+ *   },
  * })
  *
  * // Call with audio file
  * const result = await transcribe({ audio: audioFile })
+ *
+ * // Cancel - also stops the upstream provider request
+ * abort()
+ *
+ * // Streaming mode - partialText updates while the server transcribes
+ * const { transcribe, partialText } = useSpeechToText({ stream: true })
  */
 export const useSpeechToText = (options?: UseSpeechToTextOptions) => {
-  const [state, setState] = React.useState<UseSpeechToTextState>({
-    data: null,
-    error: null,
-    isLoading: false,
-  })
+  const [state, setState] = React.useState<UseSpeechToTextState>(INITIAL_STATE)
 
   const endpoint = options?.endpoint ?? '/api/speech-to-text'
 
+  const controllerRef = React.useRef<AbortController | null>(null)
+
+  // Cancel any in-flight request on unmount
+  React.useEffect(() => () => controllerRef.current?.abort(), [])
+
   const transcribe = React.useCallback(
-    async (request: SpeechToTextRequest) => {
-      setState((prev) => ({ ...prev, isLoading: true, error: null }))
+    async (request: SpeechToTextRequest): Promise<TranscribeResult> => {
+      // Only one transcription at a time - a new call cancels the previous one
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
 
-      try {
-        const formData = new FormData()
-        formData.append('audio', request.audio)
-        if (request.language) formData.append('language', request.language)
-        if (request.model) formData.append('model', request.model)
+      let timedOut = false
+      const timeout =
+        options?.timeoutMs !== undefined
+          ? setTimeout(() => {
+              timedOut = true
+              controller.abort()
+            }, options.timeoutMs)
+          : undefined
 
-        const response = await fetch(endpoint, {
-          method: 'POST',
-          body: formData,
-        })
+      setState((prev) => ({ ...prev, isLoading: true, error: null, partialText: '' }))
+
+      const fail = (error: SpeechToTextErrorResponse): TranscribeResult => {
+        setState((prev) => ({ ...prev, data: null, error, isLoading: false }))
+        options?.onError?.(error)
+        return { data: null, error }
+      }
 
-        const json = await response.json()
+      const succeed = (data: SpeechToTextResponse): TranscribeResult => {
+        setState({ ...INITIAL_STATE, data, partialText: data.text })
+        options?.onSuccess?.(data)
+        return { data, error: null }
+      }
+
+      // Timeouts are errors; cancellations were requested, so state is left to abort()
+      const failOrCancel = (error: SpeechToTextErrorResponse): TranscribeResult => {
+        if (timedOut) {
+          return fail({
+            code: 'TIMEOUT',
+            error: 'Transcription timed out',
+            details: `No response within ${options?.timeoutMs}ms`,
+          })
+        }
+        if (controller.signal.aborted) {
+          return { data: null, error: { code: 'ABORTED', error: 'Transcription cancelled' } }
+        }
+        return fail(error)
+      }
+
+      const stream = request.stream ?? options?.stream ?? false
+      const formData = new FormData()
+      formData.append('audio', request.audio)
+      if (request.language) formData.append('language', request.language)
+      if (request.model) formData.append('model', request.model)
+      if (request.timestamps) formData.append('timestamps', request.timestamps)
+      if (stream) formData.append('stream', 'true')
+
+      try {
+        let response: Response
+        try {
+          response = await fetch(endpoint, {
+            method: 'POST',
+            body: formData,
+            signal: controller.signal,
+          })
+        } catch (err) {
+          return failOrCancel({
+            code: 'NETWORK',
+            error: 'Network error',
+            details: err instanceof Error ? err.message : 'Unknown error',
+          })
+        }
 
         if (!response.ok) {
-          const error = json as SpeechToTextErrorResponse
-          setState({ data: null, error, isLoading: false })
-          options?.onError?.(error)
-          return { data: null, error }
+          return fail(await readErrorResponse(response))
         }
 
-        const data = json as SpeechToTextResponse
-        setState({ data, error: null, isLoading: false })
-        options?.onSuccess?.(data)
-        return { data, error: null }
-      } catch (err) {
-        const error: SpeechToTextErrorResponse = {
-          error: 'Network error',
-          details: err instanceof Error ? err.message : 'Unknown error',
+        try {
+          const isEventStream = response.headers.get('Content-Type')?.includes('text/event-stream')
+
+          if (isEventStream && response.body) {
+            const result = await readTranscriptStream(response.body, (partialText) =>
+              setState((prev) => ({ ...prev, partialText }))
+            )
+            return result.error ? fail(result.error) : succeed(result.data)
+          }
+
+          return succeed((await response.json()) as SpeechToTextResponse)
+        } catch (err) {
+          // Malformed payloads are unknown errors, broken connections are network errors
+          return failOrCancel({
+            code: err instanceof SyntaxError ? 'UNKNOWN' : 'NETWORK',
+            error: err instanceof SyntaxError ? 'Invalid response from server' : 'Network error',
+            details: err instanceof Error ? err.message : 'Unknown error',
+          })
         }
-        setState({ data: null, error, isLoading: false })
-        options?.onError?.(error)
-        return { data: null, error }
+      } finally {
+        clearTimeout(timeout)
+        if (controllerRef.current === controller) controllerRef.current = null
       }
     },
     [endpoint, options]
   )
 
+  /**
+   * @description Cancel the in-flight transcription
+   * The server aborts its provider call when the request is cancelled
+   */
+  const abort = React.useCallback(() => {
+    if (!controllerRef.current) return
+    controllerRef.current.abort()
+    controllerRef.current = null
+    setState((prev) => ({ ...prev, isLoading: false, partialText: '' }))
+  }, [])
+
   const reset = React.useCallback(() => {
-    setState({ data: null, error: null, isLoading: false })
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setState(INITIAL_STATE)
   }, [])
 
   return {
     ...state,
     transcribe,
+    abort,
     reset,
   }
 }
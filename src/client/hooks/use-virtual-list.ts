@@ -0,0 +1,170 @@
+'use client'
+
+import * as React from 'react'
+
+/**
+ * @description Options for useVirtualList hook
+ */
+export interface UseVirtualListOptions {
+  /**
+   * @description Number of items in the list
+   */
+  count: number
+  /**
+   * @description Stable key of the item at an index, used to remember measured heights
+   */
+  getKey: (index: number) => string
+  /**
+   * @description Scrollable element that contains the list
+   */
+  scrollRef: React.RefObject<HTMLElement | null>
+  /**
+   * @description Height assumed for items that haven't been rendered yet, in pixels
+   * @default 80
+   */
+  estimateSize?: number
+  /**
+   * @description Extra distance above and below the viewport to render, in pixels
+   * @default 800
+   */
+  overscan?: number
+}
+
+/**
+ * @description Item to render, positioned `start` pixels from the top of the list
+ */
+export interface VirtualItem {
+  index: number
+  key: string
+  start: number
+}
+
+const DEFAULT_ESTIMATE_SIZE = 80
+const DEFAULT_OVERSCAN = 800
+
+/**
+ * @description Scroll positions are rounded to this many pixels, so scrolling only re-renders
+ * when the window could have changed; overscan covers the difference
+ */
+const SCROLL_STEP = 100
+
+/**
+ * @description Windowed rendering for long lists of items with varying heights
+ * Only items near the viewport are rendered, with spacers keeping the scroll height.
+ * Rendered items are measured with a ResizeObserver, so heights can change after rendering
+ * (images loading, streamed text). Each rendered item needs `ref={measureElement}` and
+ * `data-key={key}`.
+ * @param options - Item count, keys and the scroll container
+ * @returns Items to render, spacer sizes and refs for the list and its items
+ * @example
+ * const { listRef, items, paddingTop, paddingBottom, measureElement } = useVirtualList({
+ *   count: messages.length,
+ *   getKey: (index) => messages[index].id,
+ *   scrollRef,
+ * })
+ *
+ * <div ref={listRef} style={{ paddingTop, paddingBottom }}>
+ *   {items.map(({ index, key }) => (
+ *     <div key={key} data-key={key} ref={measureElement}>{render(messages[index])}</div>
+ *   ))}
+ * </div>
+ */
+export function useVirtualList({
+  count,
+  getKey,
+  scrollRef,
+  estimateSize = DEFAULT_ESTIMATE_SIZE,
+  overscan = DEFAULT_OVERSCAN,
+}: UseVirtualListOptions) {
+  const listRef = React.useRef<HTMLDivElement>(null)
+  const sizesRef = React.useRef(new Map<string, number>())
+  const observerRef = React.useRef<ResizeObserver | null>(null)
+  const [, setMeasureVersion] = React.useState(0)
+  const [viewport, setViewport] = React.useState({ start: 0, height: 0 })
+
+  // Track the visible part of the list as the container scrolls or resizes
+  React.useEffect(() => {
+    const scroller = scrollRef.current
+    if (!scroller) return
+
+    const update = () => {
+      const list = listRef.current
+      const listOffset = list
+        ? list.getBoundingClientRect().top -
+          scroller.getBoundingClientRect().top +
+          scroller.scrollTop
+        : 0
+      const start = Math.floor((scroller.scrollTop - listOffset) / SCROLL_STEP) * SCROLL_STEP
+      const height = Math.ceil(scroller.clientHeight / SCROLL_STEP) * SCROLL_STEP
+      setViewport((previous) =>
+        previous.start === start && previous.height === height ? previous : { start, height }
+      )
+    }
+
+    update()
+    scroller.addEventListener('scroll', update, { passive: true })
+    const resizeObserver = new ResizeObserver(update)
+    resizeObserver.observe(scroller)
+
+    return () => {
+      scroller.removeEventListener('scroll', update)
+      resizeObserver.disconnect()
+    }
+  }, [scrollRef])
+
+  React.useEffect(() => () => observerRef.current?.disconnect(), [])
+
+  const measureElement = React.useCallback((element: HTMLElement | null) => {
+    if (!element || typeof ResizeObserver === 'undefined') return
+
+    observerRef.current ??= new ResizeObserver((entries) => {
+      let changed = false
+      for (const entry of entries) {
+        const key = (entry.target as HTMLElement).dataset.key
+        const size = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height
+        if (key !== undefined && sizesRef.current.get(key) !== size) {
+          sizesRef.current.set(key, size)
+          changed = true
+        }
+      }
+      if (changed) setMeasureVersion((version) => version + 1)
+    })
+
+    const observer = observerRef.current
+    observer.observe(element)
+    return () => observer.unobserve(element)
+  }, [])
+
+  // Lay out every item from measured or estimated heights, keeping those near the viewport
+  const items: VirtualItem[] = []
+  const windowStart = viewport.start - overscan
+  const windowEnd = viewport.start + viewport.height + overscan
+  let totalSize = 0
+  for (let index = 0; index < count; index++) {
+    const key = getKey(index)
+    const size = sizesRef.current.get(key) ?? estimateSize
+    if (totalSize + size >= windowStart && totalSize <= windowEnd) {
+      items.push({ index, key, start: totalSize })
+    }
+    totalSize += size
+  }
+
+  const first = items[0]
+  const last = items[items.length - 1]
+  const lastEnd = last ? last.start + (sizesRef.current.get(last.key) ?? estimateSize) : 0
+
+  return {
+    listRef,
+    items,
+    totalSize,
+    /**
+     * @description Space to keep above the first rendered item
+     */
+    paddingTop: first?.start ?? 0,
+    /**
+     * @description Space to keep below the last rendered item
+     */
+    paddingBottom: totalSize - lastEnd,
+    measureElement,
+  }
+}
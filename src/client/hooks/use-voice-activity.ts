@@ -0,0 +1,135 @@
+'use client'
+
+import * as React from 'react'
+
+/**
+ * @description Options for useVoiceActivity hook
+ */
+export interface UseVoiceActivityOptions {
+  /**
+   * @description Microphone stream to analyse; detection stops when null
+   */
+  stream: MediaStream | null
+  /**
+   * @description Call onSilence after this many milliseconds of silence following speech
+   * If not provided, speech is still tracked but onSilence is never called
+   */
+  silenceMs?: number
+  /**
+   * @description Level above which audio counts as speech, in dBFS
+   * @default -45
+   */
+  thresholdDb?: number
+  /**
+   * @description Update `level` on every poll
+   * Disable when only speech detection is needed, since each update re-renders
+   * @default true
+   */
+  trackLevel?: boolean
+  /**
+   * @description Callback when the speaker has gone quiet for `silenceMs`
+   * Called at most once per stream, and only after speech was detected
+   */
+  onSilence?: () => void
+}
+
+const DEFAULT_THRESHOLD_DB = -45
+const POLL_INTERVAL_MS = 50
+
+/**
+ * @description Quietest level shown by the meter, in dBFS
+ */
+const METER_FLOOR_DB = -60
+
+/**
+ * @description Detect speech and trailing silence on a microphone stream
+ * Reads the RMS level from an AnalyserNode, like AudioVisualizer does for its bars.
+ * Polls on a timer rather than animation frames, so detection keeps running in background tabs.
+ * @param options - Stream, silence duration and threshold
+ * @returns Input level (0-1, mapped from -60..0 dBFS), whether speech is currently detected
+ * and whether any speech was heard yet
+ * @example
+ * const { isSpeaking } = useVoiceActivity({
+ *   stream: mediaRecorder?.stream ?? null,
+ *   silenceMs: 1500,
+ *   onSilence: () => mediaRecorder?.stop(),
+ * })
+ */
+export function useVoiceActivity({
+  stream,
+  silenceMs,
+  thresholdDb = DEFAULT_THRESHOLD_DB,
+  trackLevel = true,
+  onSilence,
+}: UseVoiceActivityOptions) {
+  const [level, setLevel] = React.useState(0)
+  const [isSpeaking, setIsSpeaking] = React.useState(false)
+  const [hasSpoken, setHasSpoken] = React.useState(false)
+
+  // Keep the latest callback without restarting the analyser
+  const onSilenceRef = React.useRef(onSilence)
+  React.useEffect(() => {
+    onSilenceRef.current = onSilence
+  }, [onSilence])
+
+  React.useEffect(() => {
+    setLevel(0)
+    setIsSpeaking(false)
+    setHasSpoken(false)
+    if (!stream) return
+
+    const audioContext = new AudioContext()
+    const analyser = audioContext.createAnalyser()
+    analyser.fftSize = 2048
+    audioContext.createMediaStreamSource(stream).connect(analyser)
+
+    const samples = new Float32Array(analyser.fftSize)
+    const threshold = 10 ** (thresholdDb / 20)
+    let lastSpeechAt: number | null = null
+    let speaking = false
+    let fired = false
+
+    const interval = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples)
+      let sum = 0
+      for (const sample of samples) sum += sample * sample
+      const rms = Math.sqrt(sum / samples.length)
+      const isLoud = rms >= threshold
+
+      // Quantized so the meter doesn't re-render on every imperceptible change
+      const db = rms > 0 ? 20 * Math.log10(rms) : METER_FLOOR_DB
+      if (trackLevel) {
+        setLevel(Math.round(Math.max(0, Math.min(1, 1 - db / METER_FLOOR_DB)) * 50) / 50)
+      }
+
+      const now = Date.now()
+      if (isLoud) {
+        if (lastSpeechAt === null) setHasSpoken(true)
+        lastSpeechAt = now
+      }
+
+      if (isLoud !== speaking) {
+        speaking = isLoud
+        setIsSpeaking(isLoud)
+      }
+
+      // Only auto-stop after speech started, so users get time to begin talking
+      if (
+        silenceMs !== undefined &&
+        !fired &&
+        lastSpeechAt !== null &&
+        now - lastSpeechAt >= silenceMs
+      ) {
+        fired = true
+        onSilenceRef.current?.()
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => {
+      clearInterval(interval)
+      audioContext.close()
+    }
+  }, [stream, silenceMs, thresholdDb, trackLevel])
+
+  return { level, isSpeaking, hasSpoken }
+}
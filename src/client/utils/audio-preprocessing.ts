@@ -0,0 +1,222 @@
+/**
+ * @description Audio preprocessing applied before encoding recordings for upload
+ * Operates on planar Float32 channel data, so it runs anywhere (browser, worker, server, tests)
+ */
+
+import type { PcmAudio } from '../../speech-to-text/wav'
+
+export type { PcmAudio }
+
+/**
+ * @description Silence trimming options
+ */
+export interface TrimSilenceOptions {
+  /**
+   * @description Level below which audio counts as silence, in dBFS
+   * @default -50
+   */
+  thresholdDb?: number
+  /**
+   * @description Silence kept before the first and after the last sound, in milliseconds
+   * @default 200
+   */
+  paddingMs?: number
+}
+
+/**
+ * @description Peak normalization options
+ */
+export interface NormalizeOptions {
+  /**
+   * @description Target peak level, in dBFS
+   * @default -1
+   */
+  peakDb?: number
+}
+
+/**
+ * @description Preprocessing steps run before encoding, in order: downmix, resample, trim, normalize
+ * Each step can be disabled with false
+ */
+export interface AudioPreprocessingOptions {
+  /**
+   * @description Mix all channels down to mono
+   * @default true
+   */
+  downmix?: boolean
+  /**
+   * @description Target sample rate in Hz; audio is only ever downsampled
+   * @default 16000
+   */
+  sampleRate?: number | false
+  /**
+   * @description Remove leading and trailing silence
+   * @default true
+   */
+  trimSilence?: TrimSilenceOptions | boolean
+  /**
+   * @description Scale the audio so its peak reaches the target level
+   * @default true
+   */
+  normalize?: NormalizeOptions | boolean
+}
+
+const DEFAULT_SAMPLE_RATE = 16_000
+const DEFAULT_SILENCE_THRESHOLD_DB = -50
+const DEFAULT_SILENCE_PADDING_MS = 200
+const DEFAULT_PEAK_DB = -1
+const SILENCE_FRAME_MS = 10
+
+/**
+ * @description Maximum normalization gain (+20 dB), so near-silent recordings aren't blown up into noise
+ */
+const MAX_NORMALIZE_GAIN = 10
+
+/**
+ * @description Run the preprocessing pipeline
+ * @param audio - Decoded audio
+ * @param options - Steps to run (all enabled by default)
+ * @returns Processed audio; the input is not modified
+ * @example
+ * const processed = preprocessAudio(audio) // mono, 16 kHz, trimmed, normalized
+ * const stereo = preprocessAudio(audio, { downmix: false, trimSilence: { paddingMs: 500 } })
+ */
+export function preprocessAudio(audio: PcmAudio, options?: AudioPreprocessingOptions): PcmAudio {
+  let result = audio
+
+  if (options?.downmix !== false) result = downmixToMono(result)
+
+  const sampleRate = options?.sampleRate ?? DEFAULT_SAMPLE_RATE
+  if (sampleRate !== false) result = resample(result, sampleRate)
+
+  const trim = options?.trimSilence ?? true
+  if (trim) result = trimSilence(result, trim === true ? undefined : trim)
+
+  const peak = options?.normalize ?? true
+  if (peak) result = normalizePeak(result, peak === true ? undefined : peak)
+
+  return result
+}
+
+/**
+ * @description Average all channels into one
+ * @param audio - Decoded audio
+ * @returns Mono audio
+ */
+export function downmixToMono(audio: PcmAudio): PcmAudio {
+  if (audio.channels.length <= 1) return audio
+
+  const length = audio.channels[0].length
+  const mono = new Float32Array(length)
+  for (const channel of audio.channels) {
+    for (let i = 0; i < length; i++) mono[i] += channel[i]
+  }
+  for (let i = 0; i < length; i++) mono[i] /= audio.channels.length
+
+  return { channels: [mono], sampleRate: audio.sampleRate }
+}
+
+/**
+ * @description Downsample audio to a lower sample rate
+ * Each output sample averages the input samples it covers (a box filter). This is not a
+ * proper low-pass filter: content above the new Nyquist frequency is attenuated but some of
+ * it aliases, which is inaudible for speech transcription but unsuitable for music.
+ * Audio at or below the target rate is returned as-is, since upsampling only makes uploads larger.
+ * @param audio - Decoded audio
+ * @param sampleRate - Target sample rate in Hz
+ * @returns Resampled audio
+ */
+export function resample(audio: PcmAudio, sampleRate: number): PcmAudio {
+  if (audio.sampleRate <= sampleRate) return audio
+
+  const ratio = audio.sampleRate / sampleRate
+  const inputLength = audio.channels[0]?.length ?? 0
+  const length = Math.floor(inputLength / ratio)
+
+  const channels = audio.channels.map((input) => {
+    const output = new Float32Array(length)
+    for (let i = 0; i < length; i++) {
+      const start = Math.floor(i * ratio)
+      const end = Math.min(inputLength, Math.max(start + 1, Math.floor((i + 1) * ratio)))
+      let sum = 0
+      for (let j = start; j < end; j++) sum += input[j]
+      output[i] = sum / (end - start)
+    }
+    return output
+  })
+
+  return { channels, sampleRate }
+}
+
+/**
+ * @description Remove leading and trailing silence
+ * Audio that is silent throughout is returned unchanged
+ * @param audio - Decoded audio
+ * @param options - Threshold and padding
+ * @returns Trimmed audio
+ */
+export function trimSilence(audio: PcmAudio, options?: TrimSilenceOptions): PcmAudio {
+  const threshold = dbToGain(options?.thresholdDb ?? DEFAULT_SILENCE_THRESHOLD_DB)
+  const padding = Math.round(
+    ((options?.paddingMs ?? DEFAULT_SILENCE_PADDING_MS) / 1000) * audio.sampleRate
+  )
+  const frameLength = Math.max(1, Math.round((SILENCE_FRAME_MS / 1000) * audio.sampleRate))
+  const length = audio.channels[0]?.length ?? 0
+
+  const isLoud = (frameStart: number) => {
+    const frameEnd = Math.min(length, frameStart + frameLength)
+    return audio.channels.some((channel) => {
+      for (let i = frameStart; i < frameEnd; i++) {
+        if (Math.abs(channel[i]) >= threshold) return true
+      }
+      return false
+    })
+  }
+
+  let first = -1
+  for (let frame = 0; frame < length; frame += frameLength) {
+    if (isLoud(frame)) {
+      first = frame
+      break
+    }
+  }
+  if (first === -1) return audio
+
+  let last = Math.floor((length - 1) / frameLength) * frameLength
+  while (last > first && !isLoud(last)) last -= frameLength
+
+  const start = Math.max(0, first - padding)
+  const end = Math.min(length, last + frameLength + padding)
+  if (start === 0 && end === length) return audio
+
+  return {
+    channels: audio.channels.map((channel) => channel.slice(start, end)),
+    sampleRate: audio.sampleRate,
+  }
+}
+
+/**
+ * @description Scale audio so its loudest sample reaches the target peak
+ * Gain is capped at +20 dB; silent audio is returned unchanged
+ * @param audio - Decoded audio
+ * @param options - Target peak
+ * @returns Normalized audio
+ */
+export function normalizePeak(audio: PcmAudio, options?: NormalizeOptions): PcmAudio {
+  let peak = 0
+  for (const channel of audio.channels) {
+    for (let i = 0; i < channel.length; i++) peak = Math.max(peak, Math.abs(channel[i]))
+  }
+  if (peak === 0) return audio
+
+  const gain = Math.min(MAX_NORMALIZE_GAIN, dbToGain(options?.peakDb ?? DEFAULT_PEAK_DB) / peak)
+
+  return {
+    channels: audio.channels.map((channel) => channel.map((sample) => sample * gain)),
+    sampleRate: audio.sampleRate,
+  }
+}
+
+function dbToGain(db: number): number {
+  return 10 ** (db / 20)
+}
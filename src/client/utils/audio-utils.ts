@@ -1,3 +1,6 @@
+import { encodeWav, type PcmAudio } from '../../speech-to-text/wav'
+import { type AudioPreprocessingOptions, preprocessAudio } from './audio-preprocessing'
+
 /**
  * @description Get the best supported audio MIME type for MediaRecorder
  * Safari/iOS doesn't support webm, so we need to detect and use mp4/aac
@@ -37,79 +40,71 @@ export function getExtensionForMimeType(mimeType: string): string {
 }
 
 /**
- * @description Convert any audio blob to WAV format using Web Audio API
- * WAV is universally supported by OpenAI transcription
- * @param audioBlob - The audio blob to convert
- * @returns Promise resolving to WAV blob
+ * @description Decode any audio blob the browser can play using Web Audio API
+ * @param audioBlob - The audio blob to decode
+ * @returns Promise resolving to planar Float32 channels
  */
-export async function convertToWav(audioBlob: Blob): Promise<Blob> {
+export async function decodeAudioBlob(audioBlob: Blob): Promise<PcmAudio> {
   const audioContext = new AudioContext()
 
   try {
-    // Decode the audio data
     const arrayBuffer = await audioBlob.arrayBuffer()
     const audioBuffer = await audioContext.decodeAudioData(arrayBuffer)
 
-    // Convert to WAV
-    const wavBlob = audioBufferToWav(audioBuffer)
-    return wavBlob
+    return {
+      channels: Array.from({ length: audioBuffer.numberOfChannels }, (_, i) =>
+        audioBuffer.getChannelData(i)
+      ),
+      sampleRate: audioBuffer.sampleRate,
+    }
   } finally {
     await audioContext.close()
   }
 }
 
 /**
- * @description Convert AudioBuffer to WAV Blob
- * @param buffer - The AudioBuffer to convert
- * @returns WAV Blob
+ * @description Convert any audio blob to WAV format using Web Audio API
+ * WAV is universally supported by OpenAI transcription.
+ * By default the audio is downmixed to mono, downsampled to 16 kHz, trimmed and
+ * normalized first, which keeps uploads small without hurting transcription quality.
+ * @param audioBlob - The audio blob to convert
+ * @param options - Preprocessing steps, or false to keep the decoded audio as-is
+ * @returns Promise resolving to WAV blob
+ * @example
+ * const wav = await convertToWav(blob) // 16 kHz mono voice note
+ * const original = await convertToWav(blob, { preprocessing: false })
  */
-function audioBufferToWav(buffer: AudioBuffer): Blob {
-  const numChannels = buffer.numberOfChannels
-  const sampleRate = buffer.sampleRate
-  const format = 1 // PCM
-  const bitDepth = 16
-
-  // Interleave channels
-  const length = buffer.length * numChannels * (bitDepth / 8)
-  const wavBuffer = new ArrayBuffer(44 + length)
-  const view = new DataView(wavBuffer)
+export async function convertToWav(
+  audioBlob: Blob,
+  options?: { preprocessing?: AudioPreprocessingOptions | false }
+): Promise<Blob> {
+  const audio = await decodeAudioBlob(audioBlob)
+  const preprocessing = options?.preprocessing ?? {}
 
-  // WAV header
-  writeString(view, 0, 'RIFF')
-  view.setUint32(4, 36 + length, true)
-  writeString(view, 8, 'WAVE')
-  writeString(view, 12, 'fmt ')
-  view.setUint32(16, 16, true) // Subchunk1Size
-  view.setUint16(20, format, true) // AudioFormat (PCM)
-  view.setUint16(22, numChannels, true)
-  view.setUint32(24, sampleRate, true)
-  view.setUint32(28, sampleRate * numChannels * (bitDepth / 8), true) // ByteRate
-  view.setUint16(32, numChannels * (bitDepth / 8), true) // BlockAlign
-  view.setUint16(34, bitDepth, true)
-  writeString(view, 36, 'data')
-  view.setUint32(40, length, true)
-
-  // Write audio data
-  const channels: Float32Array[] = []
-  for (let i = 0; i < numChannels; i++) {
-    channels.push(buffer.getChannelData(i))
-  }
+  // Encode as 16-bit PCM WAV
+  const wav = encodeWav(preprocessing === false ? audio : preprocessAudio(audio, preprocessing))
+  return new Blob([wav], { type: 'audio/wav' })
+}
 
-  let offset = 44
-  for (let i = 0; i < buffer.length; i++) {
-    for (let channel = 0; channel < numChannels; channel++) {
-      const sample = Math.max(-1, Math.min(1, channels[channel][i]))
-      const intSample = sample < 0 ? sample * 0x8000 : sample * 0x7fff
-      view.setInt16(offset, intSample, true)
-      offset += 2
+/**
+ * @description Summarize audio as one peak per waveform bar
+ * @param audio - Decoded audio
+ * @param barCount - Number of bars to draw
+ * @returns Peaks in [0, 1], scaled so the loudest bar is full height
+ */
+export function getWaveformPeaks(audio: PcmAudio, barCount: number): number[] {
+  const length = audio.channels[0]?.length ?? 0
+  const peaks = Array.from({ length: barCount }, (_, bar) => {
+    const start = Math.floor((bar * length) / barCount)
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * length) / barCount))
+    let peak = 0
+    for (const channel of audio.channels) {
+      for (let i = start; i < Math.min(end, length); i++)
+        peak = Math.max(peak, Math.abs(channel[i]))
     }
-  }
-
-  return new Blob([wavBuffer], { type: 'audio/wav' })
-}
+    return peak
+  })
 
-function writeString(view: DataView, offset: number, string: string) {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i))
-  }
+  const loudest = Math.max(...peaks)
+  return loudest > 0 ? peaks.map((peak) => peak / loudest) : peaks
 }
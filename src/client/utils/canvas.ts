@@ -0,0 +1,148 @@
+'use client'
+
+import * as React from 'react'
+
+/**
+ * @description Canvas layout shared by the audio drawing helpers
+ */
+export interface CanvasLayout {
+  width: number
+  height: number
+  barWidth: number
+  gap: number
+}
+
+/**
+ * @description Options for drawBars
+ */
+export interface DrawBarsOptions extends CanvasLayout {
+  /**
+   * @description Fill color, or a function returning the color for each bar
+   */
+  color: string | ((index: number) => string)
+  /**
+   * @description Opacity from 0 to 1 applied on top of the context's globalAlpha,
+   * or a function returning the opacity for each bar
+   * @default 1
+   */
+  opacity?: number | ((index: number) => number)
+}
+
+/**
+ * @description Draw vertically centred, rounded bars on a canvas
+ * Shared by AudioVisualizer (live levels) and AudioWaveform (recorded peaks)
+ * @param ctx - Canvas 2D context
+ * @param heights - Bar heights in pixels
+ * @param options - Canvas size, bar layout and color
+ */
+export function drawBars(
+  ctx: CanvasRenderingContext2D,
+  heights: ArrayLike<number>,
+  { width, height, barWidth, gap, color, opacity = 1 }: DrawBarsOptions
+) {
+  ctx.clearRect(0, 0, width, height)
+  const baseAlpha = ctx.globalAlpha
+
+  for (let i = 0; i < heights.length; i++) {
+    const barHeight = heights[i]
+    const x = i * (barWidth + gap)
+    const y = (height - barHeight) / 2
+
+    ctx.fillStyle = typeof color === 'function' ? color(i) : color
+    ctx.globalAlpha = baseAlpha * (typeof opacity === 'function' ? opacity(i) : opacity)
+    ctx.beginPath()
+    ctx.roundRect(x, y, barWidth, barHeight, barWidth / 2)
+    ctx.fill()
+  }
+
+  ctx.globalAlpha = baseAlpha
+}
+
+/**
+ * @description Resolve a CSS color for canvas drawing
+ * Canvas doesn't understand `var(--primary)`, so colors with variables are resolved
+ * through the element's computed style (and follow the theme the element is in)
+ * @param element - Element whose cascade defines the variables
+ * @param color - Any CSS color, e.g. 'var(--primary)' or '#a78bfa'
+ * @returns Color the canvas can use
+ */
+export function resolveCssColor(element: HTMLElement, color: string): string {
+  if (!color.includes('var(')) return color
+
+  const previous = element.style.color
+  element.style.color = color
+  const resolved = getComputedStyle(element).color
+  element.style.color = previous
+  return resolved || color
+}
+
+/**
+ * @description Set up a canvas for drawing in CSS pixels at the device pixel ratio
+ * @param canvas - Canvas sized with `width * pixelRatio` x `height * pixelRatio` attributes
+ * @param pixelRatio - Current device pixel ratio
+ * @returns 2D context scaled to CSS pixels, or null if unavailable
+ */
+export function getScaledContext(
+  canvas: HTMLCanvasElement | null,
+  pixelRatio: number
+): CanvasRenderingContext2D | null {
+  const ctx = canvas?.getContext('2d')
+  if (!ctx) return null
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+  return ctx
+}
+
+/**
+ * @description Track window.devicePixelRatio (changes with zoom and when moving between screens)
+ * @returns Device pixel ratio, 1 during server rendering
+ */
+export function useDevicePixelRatio(): number {
+  const [pixelRatio, setPixelRatio] = React.useState(1)
+
+  React.useEffect(() => {
+    if (typeof window === 'undefined') return
+
+    let query: MediaQueryList | null = null
+    const update = () => {
+      query?.removeEventListener('change', update)
+      setPixelRatio(window.devicePixelRatio || 1)
+      query = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`)
+      query.addEventListener('change', update)
+    }
+
+    update()
+    return () => query?.removeEventListener('change', update)
+  }, [])
+
+  return pixelRatio
+}
+
+/**
+ * @description Counter that changes when the page theme may have changed
+ * Watches class/style/data-theme on <html> and the system color scheme,
+ * so canvas colors resolved from CSS variables can be refreshed
+ * @returns Number to add to effect dependencies
+ */
+export function useThemeVersion(): number {
+  const [version, setVersion] = React.useState(0)
+
+  React.useEffect(() => {
+    if (typeof window === 'undefined') return
+
+    const bump = () => setVersion((v) => v + 1)
+    const observer = new MutationObserver(bump)
+    observer.observe(document.documentElement, {
+      attributes: true,
+      attributeFilter: ['class', 'style', 'data-theme'],
+    })
+    const scheme = window.matchMedia('(prefers-color-scheme: dark)')
+    scheme.addEventListener('change', bump)
+
+    return () => {
+      observer.disconnect()
+      scheme.removeEventListener('change', bump)
+    }
+  }, [])
+
+  return version
+}
@@ -0,0 +1,860 @@
+/**
+ * @description Inline markdown node
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'emphasis' | 'strong' | 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; title?: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string; title?: string }
+  | { type: 'break' }
+  | { type: 'softbreak' }
+
+/**
+ * @description Column alignment of a GFM table
+ */
+export type MarkdownTableAlign = 'left' | 'center' | 'right' | null
+
+/**
+ * @description Item of a markdown list
+ */
+export interface MarkdownListItem {
+  /**
+   * @description Task list state, undefined for regular items
+   */
+  checked?: boolean
+  children: MarkdownBlock[]
+}
+
+/**
+ * @description Block-level markdown node
+ */
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; children: MarkdownInline[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | {
+      type: 'list'
+      ordered: boolean
+      start?: number
+      /**
+       * @description Tight lists render item paragraphs without spacing
+       */
+      tight: boolean
+      items: MarkdownListItem[]
+    }
+  | {
+      type: 'table'
+      align: MarkdownTableAlign[]
+      header: MarkdownInline[][]
+      rows: MarkdownInline[][][]
+    }
+  | { type: 'thematicBreak' }
+
+const LINK_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:']
+const IMAGE_PROTOCOLS = ['http:', 'https:']
+
+/**
+ * @description Placeholder origin for resolving relative URLs
+ */
+const RELATIVE_BASE = 'https://relative.invalid'
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+}
+
+// Inline patterns are sticky and matched at an offset with `matchAt`, so the inline parser never
+// copies the rest of the text for each candidate
+const ENTITY_PATTERN = /&(?:#(\d{1,7})|#[xX]([0-9a-fA-F]{1,6})|([a-zA-Z]+));/y
+const AUTOLINK_PATTERN =
+  /<(?:([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^<>\s]*)|([\w.!#$%&'*+/=?^`{|}~-]+@[a-zA-Z0-9.-]+))>/y
+const ANGLE_DESTINATION_PATTERN = /<((?:[^<>\n\\]|\\.)*)>/y
+const BARE_URL_PATTERN = /(?:https?:\/\/|www\.)[^\s<]*/y
+const LINK_DESTINATION_END = /[\s\p{Cc}]/u
+// Bounds on link destinations and titles (cmark uses the same nesting limit), so an unclosed
+// `[a](` can't make every later bracket rescan the rest of the text
+const MAX_LINK_DESTINATION_LENGTH = 2048
+const MAX_LINK_TITLE_LENGTH = 1024
+const MAX_LINK_PAREN_DEPTH = 32
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/
+const THEMATIC_BREAK = /^(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/
+const ATX_HEADING = /^(#{1,6})(?:[ \t]+(.*?))?$/
+const FENCE = /^(`{3,}|~{3,})(.*)$/
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/
+const LIST_MARKER = /^( {0,3})([-+*•]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/
+const TABLE_DELIMITER = /^\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/
+
+/**
+ * @description Parse markdown (CommonMark with GFM tables, task lists, strikethrough and
+ * autolinks) into a tree that can be rendered without raw HTML
+ * HTML in the source is kept as text, and links or images with unsafe URLs
+ * (e.g. `javascript:`) are rendered as plain text. Reference-style links are not supported.
+ * @param text - Markdown source
+ * @returns Block nodes
+ * @example
+ * parseMarkdown('1. **Name**: `Ada`')
+ * // [{ type: 'list', ordered: true, start: 1, tight: true, items: [...] }]
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n').map(expandTabs))
+}
+
+/**
+ * @description Parse inline markdown: emphasis, code spans, links, images, autolinks and breaks
+ * @param text - Inline markdown source, may contain newlines
+ * @returns Inline nodes
+ */
+export function parseInlineMarkdown(text: string): MarkdownInline[] {
+  const nodes: WorkingNode[] = []
+  const brackets: { index: number; image: boolean; active: boolean }[] = []
+  let buffer = ''
+  let i = 0
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer })
+    buffer = ''
+  }
+
+  while (i < text.length) {
+    const char = text[i]
+
+    if (char === '\\') {
+      if (text[i + 1] === '\n') {
+        flush()
+        nodes.push({ type: 'break' })
+        i = skipLeadingSpaces(text, i + 2)
+      } else if (ASCII_PUNCTUATION.test(text[i + 1] ?? '')) {
+        buffer += text[i + 1]
+        i += 2
+      } else {
+        buffer += char
+        i++
+      }
+      continue
+    }
+
+    if (char === '\n') {
+      const isHardBreak = / {2,}$/.test(buffer)
+      buffer = buffer.replace(/ +$/, '')
+      flush()
+      nodes.push({ type: isHardBreak ? 'break' : 'softbreak' })
+      i = skipLeadingSpaces(text, i + 1)
+      continue
+    }
+
+    if (char === '`') {
+      const length = countRun(text, i, '`')
+      const close = findBacktickRun(text, i + length, length)
+      if (close === -1) {
+        buffer += text.slice(i, i + length)
+        i += length
+        continue
+      }
+
+      let code = text.slice(i + length, close).replace(/\n/g, ' ')
+      if (/^ .*[^ ].* $/.test(code) || /^ [^ ] $/.test(code)) code = code.slice(1, -1)
+      flush()
+      nodes.push({ type: 'code', text: code })
+      i = close + length
+      continue
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const length = countRun(text, i, char)
+      if (char === '~' && length > 2) {
+        buffer += text.slice(i, i + length)
+        i += length
+        continue
+      }
+
+      flush()
+      nodes.push(createDelimiter(text, i, char, length))
+      i += length
+      continue
+    }
+
+    if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+      const image = char === '!'
+      flush()
+      nodes.push({ type: 'text', text: image ? '![' : '[' })
+      brackets.push({ index: nodes.length - 1, image, active: true })
+      i += image ? 2 : 1
+      continue
+    }
+
+    if (char === ']') {
+      const bracket = brackets.pop()
+      const tail = bracket?.active ? parseLinkTail(text, i + 1) : null
+      if (!bracket || !tail) {
+        buffer += char
+        i++
+        continue
+      }
+
+      flush()
+      const children = nodes.splice(bracket.index).slice(1)
+      processEmphasis(children)
+      const content = finalizeNodes(children)
+
+      if (bracket.image) {
+        const src = sanitizeUrl(tail.href, IMAGE_PROTOCOLS)
+        const alt = getPlainText(content)
+        nodes.push(
+          src ? { type: 'image', src, alt, title: tail.title } : { type: 'text', text: alt }
+        )
+      } else {
+        const href = sanitizeUrl(tail.href)
+        if (href) nodes.push({ type: 'link', href, title: tail.title, children: content })
+        else nodes.push(...content)
+        // Links can't contain other links
+        for (const opener of brackets) if (!opener.image) opener.active = false
+      }
+      i = tail.end
+      continue
+    }
+
+    if (char === '<') {
+      const autolink = matchAt(AUTOLINK_PATTERN, text, i)
+      const href = autolink && sanitizeUrl(autolink[1] ?? `mailto:${autolink[2]}`)
+      if (autolink && href) {
+        flush()
+        nodes.push({
+          type: 'link',
+          href,
+          children: [{ type: 'text', text: autolink[1] ?? autolink[2] }],
+        })
+        i += autolink[0].length
+        continue
+      }
+    }
+
+    if (char === '&') {
+      const entity = matchAt(ENTITY_PATTERN, text, i)
+      const decoded = entity && decodeEntity(entity)
+      if (entity && decoded) {
+        buffer += decoded
+        i += entity[0].length
+        continue
+      }
+    }
+
+    // GFM bare URLs, only at the start of a word
+    if ((char === 'h' || char === 'w') && /^$|[\s*_~(]$/.test(text[i - 1] ?? '')) {
+      const url = matchBareUrl(text, i)
+      if (url) {
+        flush()
+        const href = url.startsWith('www.') ? `http://${url}` : url
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: url }] })
+        i += url.length
+        continue
+      }
+    }
+
+    buffer += char
+    i++
+  }
+
+  flush()
+  processEmphasis(nodes)
+  return finalizeNodes(nodes)
+}
+
+/**
+ * @description Return the URL if its protocol is allowed, otherwise null
+ * Relative URLs are allowed. Control characters and whitespace are ignored when reading the
+ * protocol, as browsers do, so `java\nscript:` is caught too.
+ * @param url - URL from the markdown source
+ * @param protocols - Allowed protocols
+ * @returns The trimmed URL, or null if it is unsafe
+ */
+export function sanitizeUrl(url: string, protocols = LINK_PROTOCOLS): string | null {
+  const trimmed = url.trim()
+  const scheme = trimmed.replace(/[\p{Cc}\s]/gu, '').match(/^([a-zA-Z][a-zA-Z0-9+.-]*):/)
+  if (!scheme) return trimmed
+  return protocols.includes(`${scheme[1].toLowerCase()}:`) ? trimmed : null
+}
+
+/**
+ * @description Check whether an image may be loaded from its URL
+ * Relative URLs load from the page's own origin and are always allowed
+ * @param src - Sanitized image URL
+ * @param allowImages - true to allow every image, or the origins images may load from
+ * @returns True if the image may be loaded
+ */
+export function isImageAllowed(src: string, allowImages: boolean | string[]): boolean {
+  if (typeof allowImages === 'boolean') return allowImages
+
+  const origin = getOrigin(src, RELATIVE_BASE)
+  if (origin === RELATIVE_BASE) return true
+  return origin !== null && allowImages.some((allowed) => getOrigin(allowed) === origin)
+}
+
+function getOrigin(url: string, base?: string): string | null {
+  try {
+    return new URL(url, base).origin
+  } catch {
+    return null
+  }
+}
+
+// ------------------------------------------------------------------------------------------------
+// Blocks
+// ------------------------------------------------------------------------------------------------
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    if (isBlank(line)) {
+      i++
+      continue
+    }
+
+    const indent = getIndent(line)
+
+    // Indented code block
+    if (indent >= 4) {
+      const codeLines: string[] = []
+      while (i < lines.length && (isBlank(lines[i]) || getIndent(lines[i]) >= 4)) {
+        codeLines.push(lines[i].slice(4))
+        i++
+      }
+      while (codeLines.length && isBlank(codeLines[codeLines.length - 1])) codeLines.pop()
+      blocks.push({ type: 'code', text: codeLines.join('\n') })
+      continue
+    }
+
+    const content = line.slice(indent)
+
+    const fence = matchFence(content)
+    if (fence) {
+      const codeLines: string[] = []
+      i++
+      while (i < lines.length && !isClosingFence(lines[i], fence.marker)) {
+        codeLines.push(stripIndent(lines[i], indent))
+        i++
+      }
+      // An unclosed fence runs to the end, which keeps partially streamed code blocks intact
+      i++
+      blocks.push({ type: 'code', language: fence.language, text: codeLines.join('\n') })
+      continue
+    }
+
+    const heading = content.match(ATX_HEADING)
+    if (heading) {
+      const text = (heading[2] ?? '').replace(/(?:^|[ \t]+)#+[ \t]*$/, '')
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: parseInlineMarkdown(text.trim()),
+      })
+      i++
+      continue
+    }
+
+    if (THEMATIC_BREAK.test(content)) {
+      blocks.push({ type: 'thematicBreak' })
+      i++
+      continue
+    }
+
+    if (content.startsWith('>')) {
+      const quoteLines: string[] = []
+      while (i < lines.length && !isBlank(lines[i])) {
+        const current = lines[i]
+        const quoted = current.match(/^ {0,3}> ?(.*)$/)
+        if (quoted) quoteLines.push(quoted[1])
+        // Lazy continuation of a quoted paragraph
+        else if (!startsBlock(current)) quoteLines.push(current)
+        else break
+        i++
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoteLines) })
+      continue
+    }
+
+    if (parseListMarker(line)) {
+      const list = parseList(lines, i)
+      blocks.push(list.block)
+      i = list.end
+      continue
+    }
+
+    if (isTableStart(lines, i)) {
+      const table = parseTable(lines, i)
+      blocks.push(table.block)
+      i = table.end
+      continue
+    }
+
+    // Paragraph, possibly turned into a setext heading by an underline
+    const paragraphLines = [content]
+    let level: 1 | 2 | null = null
+    i++
+    while (i < lines.length && !isBlank(lines[i])) {
+      const underline = lines[i].match(SETEXT_UNDERLINE)
+      if (underline) {
+        level = underline[1][0] === '=' ? 1 : 2
+        i++
+        break
+      }
+      if (startsBlock(lines[i], true) || isTableStart(lines, i)) break
+      paragraphLines.push(lines[i].trimStart())
+      i++
+    }
+
+    const children = parseInlineMarkdown(paragraphLines.join('\n').trimEnd())
+    blocks.push(level ? { type: 'heading', level, children } : { type: 'paragraph', children })
+  }
+
+  return blocks
+}
+
+/**
+ * @description Whether a line starts a block that ends a paragraph
+ * In a paragraph, only ordered lists starting at 1 and non-empty items can begin a list
+ */
+function startsBlock(line: string, inParagraph = false): boolean {
+  const indent = getIndent(line)
+  if (indent >= 4) return false
+
+  const content = line.slice(indent)
+  if (matchFence(content) || ATX_HEADING.test(content) || THEMATIC_BREAK.test(content)) return true
+  if (content.startsWith('>')) return true
+
+  const marker = parseListMarker(line)
+  if (!marker) return false
+  if (!inParagraph) return true
+  return marker.content.trim() !== '' && (!marker.ordered || marker.start === 1)
+}
+
+interface ListMarker {
+  ordered: boolean
+  /**
+   * @description Bullet character or ordered delimiter; items of one list share it
+   */
+  kind: string
+  start: number
+  /**
+   * @description Column where the item's content starts
+   */
+  contentIndent: number
+  content: string
+}
+
+function parseListMarker(line: string): ListMarker | null {
+  const match = line.match(LIST_MARKER)
+  if (!match) return null
+
+  const [, indent, marker, spacing = '', rest = ''] = match
+  // An empty item needs a single space after its marker, as does content that is indented code
+  const padding = rest === '' || spacing.length > 4 ? 1 : spacing.length
+  const ordered = /\d/.test(marker)
+
+  return {
+    ordered,
+    kind: ordered ? marker.slice(-1) : marker,
+    start: ordered ? parseInt(marker, 10) : 1,
+    contentIndent: indent.length + marker.length + padding,
+    content: spacing.length > 4 ? spacing.slice(1) + rest : rest,
+  }
+}
+
+function parseList(lines: string[], start: number): { block: MarkdownBlock; end: number } {
+  const first = parseListMarker(lines[start]) as ListMarker
+  const items: MarkdownListItem[] = []
+  let tight = true
+  let i = start
+
+  while (i < lines.length) {
+    const marker = parseListMarker(lines[i])
+    if (!marker || marker.ordered !== first.ordered || marker.kind !== first.kind) break
+    // A thematic break wins over a bullet item
+    if (THEMATIC_BREAK.test(lines[i].trimStart())) break
+
+    const itemLines = [marker.content]
+    i++
+    while (i < lines.length) {
+      const line = lines[i]
+      if (isBlank(line)) {
+        itemLines.push('')
+      } else if (getIndent(line) >= marker.contentIndent) {
+        itemLines.push(line.slice(marker.contentIndent))
+      } else if (!isBlank(itemLines[itemLines.length - 1]) && !startsBlock(line)) {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(line.trimStart())
+      } else {
+        break
+      }
+      i++
+    }
+
+    let endsWithBlank = false
+    while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1])) {
+      itemLines.pop()
+      endsWithBlank = true
+    }
+
+    const task = itemLines[0].match(/^\[([ xX])\](?:[ \t]+|$)/)
+    if (task) itemLines[0] = itemLines[0].slice(task[0].length)
+
+    const children = parseBlocks(itemLines)
+    if (children.length > 1 && itemLines.some(isBlank)) tight = false
+    items.push({ checked: task ? task[1] !== ' ' : undefined, children })
+
+    if (endsWithBlank) {
+      const next = i < lines.length ? parseListMarker(lines[i]) : null
+      if (next?.kind !== first.kind) break
+      tight = false
+    }
+  }
+
+  return {
+    block: {
+      type: 'list',
+      ordered: first.ordered,
+      start: first.ordered ? first.start : undefined,
+      tight,
+      items,
+    },
+    end: i,
+  }
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  const header = lines[index]
+  const delimiter = lines[index + 1]
+  if (!header.includes('|') || delimiter === undefined || getIndent(header) >= 4) return false
+  if (!delimiter.includes('|') || !TABLE_DELIMITER.test(delimiter.trim())) return false
+  return splitTableRow(header).length === splitTableRow(delimiter).length
+}
+
+function parseTable(lines: string[], start: number): { block: MarkdownBlock; end: number } {
+  const header = splitTableRow(lines[start])
+  const align = splitTableRow(lines[start + 1]).map((cell): MarkdownTableAlign => {
+    const left = cell.startsWith(':')
+    const right = cell.endsWith(':')
+    if (left && right) return 'center'
+    if (right) return 'right'
+    return left ? 'left' : null
+  })
+
+  const rows: MarkdownInline[][][] = []
+  let i = start + 2
+  while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+    const cells = splitTableRow(lines[i])
+    rows.push(header.map((_, column) => parseInlineMarkdown(cells[column] ?? '')))
+    i++
+  }
+
+  return {
+    block: { type: 'table', align, header: header.map((cell) => parseInlineMarkdown(cell)), rows },
+    end: i,
+  }
+}
+
+/**
+ * @description Split a table row on unescaped pipes, ignoring the outer ones
+ */
+function splitTableRow(line: string): string[] {
+  const cells = line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+  return cells.map((cell) => cell.trim().replace(/\\\|/g, '|'))
+}
+
+function matchFence(content: string): { marker: string; language?: string } | null {
+  const match = content.match(FENCE)
+  if (!match) return null
+
+  const [, marker, info] = match
+  // Backtick fences can't have backticks in their info string, or they'd be code spans
+  if (marker[0] === '`' && info.includes('`')) return null
+  return { marker, language: info.trim().split(/\s+/)[0] || undefined }
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+  if (getIndent(line) >= 4) return false
+  const run = line.trim()
+  return run.length >= marker.length && run === marker[0].repeat(run.length)
+}
+
+function expandTabs(line: string): string {
+  if (!line.includes('\t')) return line
+
+  let expanded = ''
+  for (const char of line) {
+    expanded += char === '\t' ? ' '.repeat(4 - (expanded.length % 4)) : char
+  }
+  return expanded
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === ''
+}
+
+function getIndent(line: string): number {
+  return line.length - line.trimStart().length
+}
+
+function stripIndent(line: string, count: number): string {
+  return line.slice(Math.min(count, getIndent(line)))
+}
+
+// ------------------------------------------------------------------------------------------------
+// Inlines
+// ------------------------------------------------------------------------------------------------
+
+/**
+ * @description Run of `*`, `_` or `~` that may open or close emphasis
+ */
+interface Delimiter {
+  type: 'delimiter'
+  char: '*' | '_' | '~'
+  length: number
+  originalLength: number
+  canOpen: boolean
+  canClose: boolean
+}
+
+type WorkingNode = MarkdownInline | Delimiter
+
+function createDelimiter(
+  text: string,
+  index: number,
+  char: Delimiter['char'],
+  length: number
+): Delimiter {
+  const before = text[index - 1] ?? ' '
+  const after = text[index + length] ?? ' '
+  const isSpace = (value: string) => /\s/.test(value)
+  const isPunctuation = (value: string) => /[\p{P}\p{S}]/u.test(value)
+
+  const leftFlanking =
+    !isSpace(after) && (!isPunctuation(after) || isSpace(before) || isPunctuation(before))
+  const rightFlanking =
+    !isSpace(before) && (!isPunctuation(before) || isSpace(after) || isPunctuation(after))
+
+  // Underscores don't work intraword, so snake_case stays intact
+  const canOpen =
+    char === '_' ? leftFlanking && (!rightFlanking || isPunctuation(before)) : leftFlanking
+  const canClose =
+    char === '_' ? rightFlanking && (!leftFlanking || isPunctuation(after)) : rightFlanking
+
+  return { type: 'delimiter', char, length, originalLength: length, canOpen, canClose }
+}
+
+/**
+ * @description Match delimiter runs into emphasis, strong and strikethrough nodes, in place
+ * Follows the CommonMark "process emphasis" procedure, including the rule of three
+ */
+function processEmphasis(nodes: WorkingNode[]) {
+  let closerIndex = 0
+
+  while (closerIndex < nodes.length) {
+    const closer = nodes[closerIndex]
+    if (closer.type !== 'delimiter' || !closer.canClose) {
+      closerIndex++
+      continue
+    }
+
+    let openerIndex = closerIndex - 1
+    while (openerIndex >= 0 && !canMatch(nodes[openerIndex], closer)) openerIndex--
+    if (openerIndex < 0) {
+      closerIndex++
+      continue
+    }
+
+    const opener = nodes[openerIndex] as Delimiter
+    const used = closer.char === '~' ? closer.length : Math.min(2, opener.length, closer.length)
+    const type = closer.char === '~' ? 'strikethrough' : used === 2 ? 'strong' : 'emphasis'
+    const children = finalizeNodes(nodes.slice(openerIndex + 1, closerIndex))
+
+    opener.length -= used
+    closer.length -= used
+    const replacement: WorkingNode[] = [{ type, children }]
+    if (opener.length > 0) replacement.unshift(opener)
+    if (closer.length > 0) replacement.push(closer)
+
+    nodes.splice(openerIndex, closerIndex - openerIndex + 1, ...replacement)
+    closerIndex = openerIndex + replacement.length - (closer.length > 0 ? 1 : 0)
+  }
+}
+
+function canMatch(node: WorkingNode, closer: Delimiter): boolean {
+  if (node.type !== 'delimiter' || node.char !== closer.char || !node.canOpen) return false
+  // GFM strikethrough needs runs of the same length
+  if (closer.char === '~') return node.length === closer.length
+
+  const sum = node.originalLength + closer.originalLength
+  const bothMultiplesOfThree = node.originalLength % 3 === 0 && closer.originalLength % 3 === 0
+  return !((node.canClose || closer.canOpen) && sum % 3 === 0 && !bothMultiplesOfThree)
+}
+
+/**
+ * @description Turn leftover delimiters into text and merge adjacent text nodes
+ */
+function finalizeNodes(nodes: WorkingNode[]): MarkdownInline[] {
+  const result: MarkdownInline[] = []
+  for (const node of nodes) {
+    const inline: MarkdownInline =
+      node.type === 'delimiter' ? { type: 'text', text: node.char.repeat(node.length) } : node
+    const previous = result[result.length - 1]
+    if (inline.type === 'text' && previous?.type === 'text') {
+      result[result.length - 1] = { type: 'text', text: previous.text + inline.text }
+    } else {
+      result.push(inline)
+    }
+  }
+  return result
+}
+
+/**
+ * @description Parse the `(destination "title")` part of a link after its closing bracket
+ */
+function parseLinkTail(
+  text: string,
+  start: number
+): { href: string; title?: string; end: number } | null {
+  if (text[start] !== '(') return null
+
+  let i = skipWhitespace(text, start + 1)
+  let href: string
+
+  if (text[i] === '<') {
+    const match = matchAt(ANGLE_DESTINATION_PATTERN, text, i)
+    if (!match) return null
+    href = match[1]
+    i += match[0].length
+  } else {
+    const hrefStart = i
+    const limit = Math.min(text.length, hrefStart + MAX_LINK_DESTINATION_LENGTH)
+    let depth = 0
+    while (i < limit) {
+      const char = text[i]
+      if (char === '\\' && ASCII_PUNCTUATION.test(text[i + 1] ?? '')) {
+        i += 2
+        continue
+      }
+      if (LINK_DESTINATION_END.test(char)) break
+      if (char === '(' && ++depth > MAX_LINK_PAREN_DEPTH) return null
+      if (char === ')' && depth-- === 0) break
+      i++
+    }
+    if (depth > 0 || i >= limit) return null
+    href = text.slice(hrefStart, i)
+  }
+
+  let title: string | undefined
+  const titleStart = skipWhitespace(text, i)
+  const quote = text[titleStart]
+  if (titleStart > i && (quote === '"' || quote === "'" || quote === '(')) {
+    const close = quote === '(' ? ')' : quote
+    const limit = Math.min(text.length, titleStart + MAX_LINK_TITLE_LENGTH)
+    let end = titleStart + 1
+    while (end < limit && text[end] !== close) end += text[end] === '\\' ? 2 : 1
+    if (end >= limit) return null
+    title = unescapeText(text.slice(titleStart + 1, end))
+    i = end + 1
+  }
+
+  i = skipWhitespace(text, i)
+  if (text[i] !== ')') return null
+  return { href: unescapeText(href), title, end: i + 1 }
+}
+
+/**
+ * @description Match a GFM autolink literal, without trailing punctuation or unbalanced `)`
+ */
+function matchBareUrl(text: string, start: number): string | null {
+  const match = matchAt(BARE_URL_PATTERN, text, start)
+  if (!match || /^(?:https?:\/\/|www\.)$/.test(match[0])) return null
+
+  let url = match[0].replace(/[?!.,:*_~'"]+$/, '')
+  while (url.endsWith(')') && countChar(url, ')') > countChar(url, '(')) {
+    url = url.slice(0, -1).replace(/[?!.,:*_~'"]+$/, '')
+  }
+  return /[a-zA-Z0-9]/.test(url.replace(/^(?:https?:\/\/|www\.)/, '')) ? url : null
+}
+
+/**
+ * @description Match a sticky pattern at `index` without slicing the text
+ */
+function matchAt(pattern: RegExp, text: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index
+  return pattern.exec(text)
+}
+
+function findBacktickRun(text: string, from: number, length: number): number {
+  let i = text.indexOf('`', from)
+  while (i !== -1) {
+    const run = countRun(text, i, '`')
+    if (run === length) return i
+    i = text.indexOf('`', i + run)
+  }
+  return -1
+}
+
+function decodeEntity(match: RegExpMatchArray): string | null {
+  const [, decimal, hex, name] = match
+  if (name) return ENTITIES[name] ?? null
+
+  const codePoint = parseInt(decimal ?? hex, decimal ? 10 : 16)
+  return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '�'
+}
+
+function unescapeText(text: string): string {
+  return text
+    .replace(/\\([!-/:-@[-`{-~])/g, '$1')
+    .replace(/&(?:#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[a-zA-Z]+);/g, (entity) => {
+      const match = matchAt(ENTITY_PATTERN, entity, 0)
+      return (match && decodeEntity(match)) ?? entity
+    })
+}
+
+function getPlainText(nodes: MarkdownInline[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text' || node.type === 'code') return node.text
+      if (node.type === 'image') return node.alt
+      if (node.type === 'break' || node.type === 'softbreak') return ' '
+      return getPlainText(node.children)
+    })
+    .join('')
+}
+
+function countRun(text: string, index: number, char: string): number {
+  let end = index
+  while (text[end] === char) end++
+  return end - index
+}
+
+function countChar(text: string, char: string): number {
+  return text.split(char).length - 1
+}
+
+function skipLeadingSpaces(text: string, index: number): number {
+  while (text[index] === ' ') index++
+  return index
+}
+
+function skipWhitespace(text: string, index: number): number {
+  while (text[index] === ' ' || text[index] === '\t' || text[index] === '\n') index++
+  return index
+}
@@ -0,0 +1,275 @@
+/**
+ * @description Framework adapters for the speech-to-text handler
+ * Mount the Fetch-API handler from createSpeechToTextHandler in Express/Connect, Hono
+ * or a bare node:http server
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+
+import type { SpeechToTextErrorResponse } from './types'
+
+/**
+ * @description Fetch-API request handler, as returned by createSpeechToTextHandler
+ */
+export type FetchHandler = (req: Request) => Promise<Response>
+
+/**
+ * @description File parsed by multipart middleware such as multer (memory storage)
+ */
+export interface UploadedFile {
+  fieldname: string
+  originalname: string
+  mimetype: string
+  buffer: Uint8Array
+}
+
+/**
+ * @description Node request, optionally pre-parsed by Express/Connect middleware
+ */
+export interface NodeRequest extends IncomingMessage {
+  /**
+   * @description Fields or raw body set by body-parsing middleware
+   */
+  body?: unknown
+  /**
+   * @description Single file set by multer's `upload.single()`
+   */
+  file?: UploadedFile
+  /**
+   * @description Files set by multer's `upload.any()` / `upload.fields()`
+   */
+  files?: UploadedFile[] | Record<string, UploadedFile[]>
+}
+
+/**
+ * @description Minimal Hono context shape, so hono isn't required as a dependency
+ */
+export interface HonoContextLike {
+  req: { raw: Request }
+}
+
+/**
+ * @description Convert a Node request into a Fetch-API Request
+ * Streams the body when it hasn't been consumed; otherwise rebuilds it from what
+ * middleware parsed (multer files and fields, or a raw Buffer body)
+ * @param req - Node or Express request
+ * @param signal - Signal for the Request, e.g. aborted when the client disconnects
+ * @returns Fetch-API Request
+ * @throws TypeError if the request URL can't be parsed
+ */
+export function toFetchRequest(req: NodeRequest, signal?: AbortSignal): Request {
+  const url = getRequestUrl(req)
+  const method = req.method ?? 'GET'
+
+  const headers = new Headers()
+  for (const [key, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) value.forEach((item) => headers.append(key, item))
+    else if (value !== undefined) headers.set(key, value)
+  }
+
+  if (method === 'GET' || method === 'HEAD') {
+    return new Request(url, { method, headers, signal })
+  }
+
+  // Multipart already parsed by middleware - rebuild the form
+  const files = collectUploadedFiles(req)
+  if (files.length > 0) {
+    const formData = new FormData()
+    for (const file of files) {
+      formData.append(
+        file.fieldname,
+        new File([new Uint8Array(file.buffer)], file.originalname, { type: file.mimetype })
+      )
+    }
+    if (isRecord(req.body)) {
+      for (const [key, value] of Object.entries(req.body)) {
+        if (typeof value === 'string') formData.append(key, value)
+      }
+    }
+    // The multipart boundary changes, so the original content headers no longer apply
+    headers.delete('content-type')
+    headers.delete('content-length')
+    return new Request(url, { method, headers, body: formData, signal })
+  }
+
+  // Raw body already read by middleware (e.g. express.raw())
+  if (req.body instanceof Uint8Array) {
+    return new Request(url, { method, headers, body: new Uint8Array(req.body), signal })
+  }
+
+  // Stream the untouched body, so the handler's size limit can stop reading it early
+  const iterator = req[Symbol.asyncIterator]()
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next()
+      if (done) controller.close()
+      else controller.enqueue(typeof value === 'string' ? new TextEncoder().encode(value) : value)
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+
+  // Node requires duplex: 'half' for streaming request bodies
+  return new Request(url, { method, headers, body, signal, duplex: 'half' } as RequestInit)
+}
+
+/**
+ * @description Write a Fetch-API Response to a Node response
+ * Bodies are streamed, so Server-Sent Events reach the client as they are produced
+ * @param res - Node response
+ * @param response - Fetch-API Response
+ */
+export async function sendFetchResponse(res: ServerResponse, response: Response): Promise<void> {
+  res.statusCode = response.status
+  response.headers.forEach((value, key) => res.setHeader(key, value))
+
+  if (!response.body) {
+    res.end()
+    return
+  }
+
+  res.flushHeaders()
+  const reader = response.body.getReader()
+  // Stop reading when the client disconnects
+  const onClose = () => reader.cancel().catch(() => undefined)
+  res.on('close', onClose)
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      res.write(value)
+    }
+  } finally {
+    res.off('close', onClose)
+    res.end()
+  }
+}
+
+/**
+ * @description Adapt a Fetch-API handler to a node:http request listener
+ * @param handler - Handler from createSpeechToTextHandler
+ * @returns Request listener for http.createServer
+ * @example
+ * import { createServer } from 'node:http'
+ *
+ * const handler = createSpeechToTextHandler()
+ * createServer(toNodeHandler(handler)).listen(3000)
+ */
+export function toNodeHandler(handler: FetchHandler) {
+  return async (req: NodeRequest, res: ServerResponse): Promise<void> => {
+    // Abort the handler (and the provider call) if the client goes away early
+    const controller = new AbortController()
+    const onClose = () => {
+      if (!res.writableFinished) controller.abort()
+    }
+    res.on('close', onClose)
+
+    // Never reject: node:http doesn't handle rejected listeners, so failures become responses
+    try {
+      let request: Request
+      try {
+        request = toFetchRequest(req, controller.signal)
+      } catch (error) {
+        sendErrorResponse(res, 400, {
+          code: 'INVALID_REQUEST',
+          error: 'Malformed request',
+          details: error instanceof Error ? error.message : undefined,
+        })
+        return
+      }
+
+      await sendFetchResponse(res, await handler(request))
+    } catch (error) {
+      console.error('Speech-to-text adapter error:', error)
+      sendErrorResponse(res, 500, {
+        code: 'UNKNOWN',
+        error: 'Failed to handle request',
+        details: error instanceof Error ? error.message : undefined,
+      })
+    } finally {
+      res.off('close', onClose)
+    }
+  }
+}
+
+/**
+ * @description Adapt a Fetch-API handler to Express/Connect middleware
+ * Works with or without multer; when multer ran first its parsed files are used
+ * @param handler - Handler from createSpeechToTextHandler
+ * @returns Express/Connect middleware
+ * @example
+ * import express from 'express'
+ *
+ * const app = express()
+ * app.post('/api/speech-to-text', toExpressHandler(createSpeechToTextHandler()))
+ */
+export function toExpressHandler(handler: FetchHandler) {
+  const nodeHandler = toNodeHandler(handler)
+
+  return (req: NodeRequest, res: ServerResponse, next: (error?: unknown) => void): void => {
+    nodeHandler(req, res).catch(next)
+  }
+}
+
+/**
+ * @description Adapt a Fetch-API handler to a Hono route
+ * @param handler - Handler from createSpeechToTextHandler
+ * @returns Hono route handler
+ * @example
+ * import { Hono } from 'hono'
+ *
+ * const app = new Hono()
+ * app.post('/api/speech-to-text', toHonoHandler(createSpeechToTextHandler()))
+ */
+export function toHonoHandler(handler: FetchHandler) {
+  return (c: HonoContextLike): Promise<Response> => handler(c.req.raw)
+}
+
+/**
+ * @description Send a JSON error, or just end the response if headers were already sent
+ */
+function sendErrorResponse(
+  res: ServerResponse,
+  status: number,
+  body: SpeechToTextErrorResponse
+): void {
+  if (res.headersSent) {
+    res.end()
+    return
+  }
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * @description Build the absolute request URL, ignoring a malformed Host header
+ */
+function getRequestUrl(req: NodeRequest): string {
+  const protocol = getHeader(req, 'x-forwarded-proto')?.split(',')[0]?.trim() || 'http'
+  const path = req.url ?? '/'
+
+  try {
+    return new URL(path, `${protocol}://${req.headers.host ?? 'localhost'}`).href
+  } catch {
+    return new URL(path, 'http://localhost').href
+  }
+}
+
+function collectUploadedFiles(req: NodeRequest): UploadedFile[] {
+  if (req.file) return [req.file]
+  if (Array.isArray(req.files)) return req.files
+  if (req.files) return Object.values(req.files).flat()
+  return []
+}
+
+function getHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !(value instanceof Uint8Array)
+}
@@ -0,0 +1,106 @@
+/**
+ * @description Transcription result caching
+ * Identical uploads are answered from the cache instead of calling the provider again
+ */
+
+import type {
+  SpeechToTextResponse,
+  TimestampGranularity,
+  TranscriptionCacheOptions,
+  TranscriptionCacheStore,
+  TranscriptionModel,
+} from './types'
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000
+const DEFAULT_MAX_ENTRIES = 500
+
+/**
+ * @description Create an in-memory LRU transcription cache store
+ * Suitable for a single server instance; use a shared store (e.g. Redis) when scaling out
+ * @param options - Cache size
+ * @returns Cache store backed by a Map, evicting the least recently used entry when full
+ * @example
+ * const store = createMemoryTranscriptionCache({ maxEntries: 1000 })
+ * const handler = createSpeechToTextHandler({ cache: { store, ttlMs: 10 * 60 * 1000 } })
+ */
+export function createMemoryTranscriptionCache(options?: {
+  maxEntries?: number
+}): TranscriptionCacheStore {
+  const maxEntries = Math.max(1, options?.maxEntries ?? DEFAULT_MAX_ENTRIES)
+  // Map iteration follows insertion order, so the first key is the least recently used
+  const entries = new Map<string, { value: SpeechToTextResponse; expiresAt: number }>()
+
+  return {
+    get(key) {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+
+      entries.delete(key)
+      if (entry.expiresAt <= Date.now()) return undefined
+
+      entries.set(key, entry)
+      return entry.value
+    },
+    set(key, value, ttlMs) {
+      entries.delete(key)
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value
+        if (oldest === undefined) break
+        entries.delete(oldest)
+      }
+    },
+  }
+}
+
+/**
+ * @description Build the cache key for a transcription
+ * SHA-256 of the audio bytes plus the options that change the result
+ * @param audioData - Audio data as Uint8Array
+ * @param options - Options that are part of the key
+ * @returns Cache key
+ */
+export async function getTranscriptionCacheKey(
+  audioData: Uint8Array,
+  options?: {
+    model?: TranscriptionModel
+    language?: string
+    timestamps?: TimestampGranularity
+  }
+): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(audioData))
+  const hash = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('')
+
+  return [
+    hash,
+    options?.model ?? 'default',
+    options?.language ?? 'auto',
+    options?.timestamps ?? 'none',
+  ].join(':')
+}
+
+/**
+ * @description Create a transcription cache from handler options
+ * @param options - Cache configuration
+ * @returns Functions to look up and store results
+ * @example
+ * const cache = createTranscriptionCache({ ttlMs: 60_000 })
+ * const key = await getTranscriptionCacheKey(audioData, { model, language })
+ * const cached = await cache.get(key)
+ */
+export function createTranscriptionCache(options: TranscriptionCacheOptions) {
+  const store = options.store ?? createMemoryTranscriptionCache()
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS
+
+  const get = async (key: string): Promise<SpeechToTextResponse | undefined> => store.get(key)
+
+  const set = async (key: string, value: SpeechToTextResponse): Promise<void> => {
+    if (ttlMs <= 0) return
+    await store.set(key, value, ttlMs)
+  }
+
+  return { get, set }
+}
@@ -0,0 +1,228 @@
+/**
+ * @description Long-audio transcription
+ * Splits WAV input into overlapping chunks, transcribes them with bounded concurrency
+ * and stitches text and timestamps back into a single result
+ */
+
+import type {
+  ChunkingOptions,
+  SpeechToTextResponse,
+  TranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptSegment,
+} from './types'
+import { parseWav, sliceWav } from './wav'
+
+const DEFAULT_MAX_CHUNK_BYTES = 24 * 1024 * 1024
+const DEFAULT_MAX_CHUNK_SECONDS = 600
+const DEFAULT_OVERLAP_SECONDS = 2
+const DEFAULT_CONCURRENCY = 3
+
+/**
+ * @description Maximum number of words compared when de-duplicating chunk boundaries
+ */
+const MAX_OVERLAP_WORDS = 30
+
+/**
+ * @description A time range of the source audio as a standalone WAV file
+ */
+export interface AudioChunk {
+  /**
+   * @description WAV file bytes for this chunk
+   */
+  audio: Uint8Array
+  /**
+   * @description Start of the chunk in the source audio, in seconds
+   */
+  startSecond: number
+  /**
+   * @description End of the chunk in the source audio, in seconds
+   */
+  endSecond: number
+}
+
+/**
+ * @description Split WAV audio into overlapping chunks
+ * @param audioData - WAV file bytes
+ * @param options - Chunk size and overlap
+ * @returns Chunks in order, or null if the audio isn't WAV or fits in a single chunk
+ */
+export function splitWavIntoChunks(
+  audioData: Uint8Array,
+  options?: ChunkingOptions
+): AudioChunk[] | null {
+  const info = parseWav(audioData)
+  if (!info) return null
+
+  const duration = info.dataSize / (info.sampleRate * info.blockAlign)
+  const maxBytes = options?.maxChunkBytes ?? DEFAULT_MAX_CHUNK_BYTES
+  // Leave room for the header in every chunk
+  const chunkSeconds = Math.min(
+    options?.maxChunkSeconds ?? DEFAULT_MAX_CHUNK_SECONDS,
+    (maxBytes - 1024) / info.byteRate
+  )
+  const overlapSeconds = Math.min(
+    options?.overlapSeconds ?? DEFAULT_OVERLAP_SECONDS,
+    chunkSeconds / 4
+  )
+
+  if (duration <= chunkSeconds || chunkSeconds <= 0) return null
+
+  const chunks: AudioChunk[] = []
+  const step = chunkSeconds - overlapSeconds
+
+  for (let startSecond = 0; startSecond < duration; startSecond += step) {
+    const endSecond = Math.min(duration, startSecond + chunkSeconds)
+    chunks.push({
+      audio: sliceWav(audioData, info, startSecond, endSecond),
+      startSecond,
+      endSecond,
+    })
+    if (endSecond >= duration) break
+  }
+
+  return chunks
+}
+
+/**
+ * @description Join two transcripts, dropping words repeated in the overlap
+ * The result always starts with `previous`, so callers can emit the appended part as a delta
+ * @param previous - Transcript so far
+ * @param next - Transcript of the following chunk
+ * @returns Combined transcript
+ * @example
+ * mergeOverlappingText('we should ship it on', 'ship it on Friday') // 'we should ship it on Friday'
+ */
+export function mergeOverlappingText(previous: string, next: string): string {
+  const nextWords = next.trim().split(/\s+/).filter(Boolean)
+  if (!previous.trim()) return nextWords.join(' ')
+  if (nextWords.length === 0) return previous
+
+  const previousKeys = previous.trim().split(/\s+/).map(normalizeWord)
+  const nextKeys = nextWords.map(normalizeWord)
+
+  // Find the longest run ending `previous` that reappears near the start of `next`.
+  // The first couple of words of `next` may be fragments cut at the chunk edge.
+  let bestEnd = 0
+  let bestLength = 0
+  const maxLength = Math.min(MAX_OVERLAP_WORDS, previousKeys.length, nextKeys.length)
+
+  for (let skip = 0; skip <= 2; skip++) {
+    for (let length = maxLength; length > bestLength; length--) {
+      if (skip + length > nextKeys.length) continue
+      const tail = previousKeys.slice(-length)
+      const head = nextKeys.slice(skip, skip + length)
+      if (tail.every((word, i) => word !== '' && word === head[i])) {
+        bestEnd = skip + length
+        bestLength = length
+        break
+      }
+    }
+  }
+
+  const rest = nextWords.slice(bestEnd).join(' ')
+  return rest ? `${previous} ${rest}` : previous
+}
+
+/**
+ * @description Transcribe chunks and stitch them into one response
+ * Segment and word timestamps are shifted to the source timeline, and items in an overlap
+ * are kept only from the chunk that owns that half of it
+ * @param chunks - Chunks from splitWavIntoChunks
+ * @param options - Transcription options passed to every chunk
+ * @param provider - Provider used for each chunk
+ * @param chunking - Concurrency settings
+ * @param onText - Called in order with the text appended by each chunk
+ * @returns Stitched transcription result
+ */
+export async function transcribeChunks(
+  chunks: AudioChunk[],
+  options: TranscriptionOptions,
+  provider: TranscriptionProvider,
+  chunking?: ChunkingOptions,
+  onText?: (delta: string) => void
+): Promise<SpeechToTextResponse> {
+  const concurrency = Math.max(1, chunking?.concurrency ?? DEFAULT_CONCURRENCY)
+  const results: (SpeechToTextResponse | undefined)[] = new Array(chunks.length)
+
+  let text = ''
+  let emitted = 0
+
+  // Emit text in chunk order as soon as each prefix of chunks is done
+  const flush = () => {
+    while (emitted < chunks.length && results[emitted]) {
+      const merged = mergeOverlappingText(text, results[emitted]!.text)
+      const delta = merged.slice(text.length)
+      text = merged
+      emitted++
+      if (delta) onText?.(delta)
+    }
+  }
+
+  // Cancel the chunks still in flight as soon as one fails
+  const failure = new AbortController()
+  const signal = options.signal ? AbortSignal.any([options.signal, failure.signal]) : failure.signal
+  const chunkOptions = { ...options, signal }
+
+  let nextIndex = 0
+  const worker = async () => {
+    // Stop scheduling chunks once one fails or the request is aborted
+    while (nextIndex < chunks.length && !failure.signal.aborted) {
+      options.signal?.throwIfAborted()
+      const index = nextIndex++
+      try {
+        results[index] = await provider.transcribe(chunks[index].audio, chunkOptions)
+      } catch (error) {
+        failure.abort(error)
+        throw error
+      }
+      flush()
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker))
+
+  const completed = results as SpeechToTextResponse[]
+  const last = chunks[chunks.length - 1]
+
+  return {
+    text: text.trim(),
+    language: completed.find((result) => result.language)?.language,
+    duration: last.endSecond,
+    ...(completed.some((result) => result.segments) && {
+      segments: stitchTimed(chunks, completed, (result) => result.segments),
+    }),
+    ...(completed.some((result) => result.words) && {
+      words: stitchTimed(chunks, completed, (result) => result.words),
+    }),
+  }
+}
+
+/**
+ * @description Offset timed items to the source timeline and drop duplicates from overlaps
+ * Each overlap is split at its midpoint; an item belongs to the chunk it starts in
+ */
+function stitchTimed(
+  chunks: AudioChunk[],
+  results: SpeechToTextResponse[],
+  select: (result: SpeechToTextResponse) => TranscriptSegment[] | undefined
+): TranscriptSegment[] {
+  return chunks.flatMap((chunk, i) => {
+    const previous = chunks[i - 1]
+    const next = chunks[i + 1]
+    const lower = previous ? (chunk.startSecond + previous.endSecond) / 2 : -Infinity
+    const upper = next ? (next.startSecond + chunk.endSecond) / 2 : Infinity
+
+    return (select(results[i]) ?? [])
+      .map((item) => ({
+        ...item,
+        startSecond: item.startSecond + chunk.startSecond,
+        endSecond: item.endSecond + chunk.startSecond,
+      }))
+      .filter((item) => item.startSecond >= lower && item.startSecond < upper)
+  })
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '')
+}
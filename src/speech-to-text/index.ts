@@ -3,5 +3,12 @@
  * Server-side functions and types for SDK consumers
  */
 
+export * from './adapters'
+export * from './cache'
+export * from './chunking'
+export * from './providers'
+export * from './rate-limit'
+export * from './retry'
 export * from './server'
 export * from './types'
+export * from './wav'
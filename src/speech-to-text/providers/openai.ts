@@ -0,0 +1,124 @@
+/**
+ * @description OpenAI transcription provider
+ * Default provider used by createSpeechToTextHandler
+ *
+ * @note This module requires optional dependencies: 'ai' and '@ai-sdk/openai'.
+ * Install them with: bun add ai @ai-sdk/openai
+ */
+
+import { openai } from '@ai-sdk/openai'
+import { experimental_transcribe as transcribe } from 'ai'
+
+import { parseRetryAfter, TranscriptionProviderError } from '../retry'
+import { readServerSentEvents } from '../sse'
+import type { TranscriptionModel, TranscriptionOptions, TranscriptionProvider } from '../types'
+
+const DEFAULT_MODEL: TranscriptionModel = 'gpt-4o-transcribe'
+
+/**
+ * @description Default model when timestamps are requested
+ * The gpt-4o transcription models don't return segment or word timings
+ */
+const DEFAULT_TIMESTAMP_MODEL: TranscriptionModel = 'whisper-1'
+
+/**
+ * @description Stream transcript deltas via direct OpenAI API call.
+ * Yields text fragments as OpenAI emits them.
+ */
+async function* streamTranscriptDeltas(
+  audioData: Uint8Array,
+  options?: TranscriptionOptions
+): AsyncGenerator<string> {
+  const model = options?.model || DEFAULT_MODEL
+  const formData = new FormData()
+  const audioFile = new File([Buffer.from(audioData)], 'audio.wav', { type: 'audio/wav' })
+  formData.append('file', audioFile)
+  formData.append('model', model)
+  formData.append('stream', 'true')
+  formData.append('response_format', 'text')
+  if (options?.language) formData.append('language', options.language)
+
+  const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` },
+    body: formData,
+    signal: options?.signal,
+  })
+
+  if (!response.ok) {
+    throw new TranscriptionProviderError(
+      `OpenAI streaming transcription failed: ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    )
+  }
+
+  if (!response.body) throw new Error('No response body for streaming transcription')
+
+  let hasDeltas = false
+
+  for await (const data of readServerSentEvents(response.body)) {
+    try {
+      const parsed = JSON.parse(data)
+      if (parsed.type === 'transcript.text.delta' && parsed.delta) {
+        hasDeltas = true
+        yield parsed.delta
+      } else if (parsed.text && !hasDeltas) {
+        // Final event only carries the full text when no deltas were sent
+        yield parsed.text
+      }
+    } catch {
+      // Plain text streaming - yield directly
+      yield data
+    }
+  }
+}
+
+/**
+ * @description Transcription provider backed by the OpenAI API
+ * Uses lightweight compression formatting (no segments/timestamps) for minimal response size,
+ * unless timestamps are requested - then defaults to 'whisper-1', which returns timings.
+ * Supports incremental results through `transcribeStream`.
+ * Reads the API key from the OPENAI_API_KEY environment variable.
+ */
+export const openAITranscriptionProvider: TranscriptionProvider = {
+  name: 'openai',
+  async transcribe(audioData, options) {
+    const timestamps = options?.timestamps ?? 'none'
+    const model =
+      options?.model || (timestamps === 'none' ? DEFAULT_MODEL : DEFAULT_TIMESTAMP_MODEL)
+
+    // Lightweight compression formatting unless timestamps are requested
+    const result = await transcribe({
+      model: openai.transcription(model),
+      audio: audioData,
+      abortSignal: options?.signal,
+      // Retries are handled by the handler's retry policy
+      maxRetries: 0,
+      providerOptions: {
+        openai: {
+          ...(options?.language && { language: options.language }),
+          ...(timestamps !== 'none' && { timestampGranularities: [timestamps] }),
+        },
+      },
+    })
+
+    // The duration is always returned, so the handler can charge non-WAV audio to the quota
+    if (timestamps === 'none') {
+      return {
+        text: result.text,
+        language: result.language,
+        duration: result.durationInSeconds,
+      }
+    }
+
+    // With word granularity only, the AI SDK reports words as segments
+    return {
+      text: result.text,
+      language: result.language,
+      duration: result.durationInSeconds,
+      ...(timestamps === 'segment' ? { segments: result.segments } : { words: result.segments }),
+    }
+  },
+  transcribeStream: streamTranscriptDeltas,
+}
@@ -0,0 +1,200 @@
+/**
+ * @description Rate limiting and audio quota for the speech-to-text handler
+ * Sliding-window request limits plus a daily seconds-of-audio budget per user key
+ */
+
+import type { RateLimitStore, SpeechToTextRateLimitOptions } from './types'
+
+const DEFAULT_WINDOW_MS = 60_000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * @description Bytes per second assumed for uploads of unknown duration
+ * 32 kbps, the usual bitrate of speech recorded as Opus by browsers
+ */
+const ESTIMATED_BYTES_PER_SECOND = 4_000
+
+/**
+ * @description How often the memory store drops keys without recent requests
+ */
+const PRUNE_INTERVAL_MS = 60_000
+
+/**
+ * @description Result of a rate limit check
+ */
+export type RateLimitResult =
+  | { allowed: true }
+  | {
+      allowed: false
+      /**
+       * @description Which limit was hit
+       */
+      reason: 'requests' | 'audio-quota'
+      /**
+       * @description Seconds until the request may be retried (Retry-After header value)
+       */
+      retryAfterSeconds: number
+    }
+
+/**
+ * @description Create an in-memory rate limit store
+ * Suitable for a single server instance; use a shared store (e.g. Redis) when scaling out.
+ * Keys whose requests all left the window and usage from past days are pruned as it is written.
+ * @returns Rate limit store backed by Maps
+ * @example
+ * const store = createMemoryRateLimitStore()
+ * const handler = createSpeechToTextHandler({ rateLimit: { maxRequests: 10, store } })
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, number[]>()
+  const usage = new Map<string, { period: string; seconds: number }>()
+  // Oldest window start asked for since the last prune; older hits can't matter any more
+  let pruneBefore = Infinity
+  let lastPrune = 0
+  let currentPeriod: string | null = null
+
+  const pruneHits = (now: number) => {
+    if (now - lastPrune < PRUNE_INTERVAL_MS || pruneBefore === Infinity) return
+    for (const [key, timestamps] of hits) {
+      if (timestamps[timestamps.length - 1] < pruneBefore) hits.delete(key)
+    }
+    lastPrune = now
+    pruneBefore = Infinity
+  }
+
+  return {
+    getHits(key, since) {
+      pruneBefore = Math.min(pruneBefore, since)
+      const recent = (hits.get(key) ?? []).filter((timestamp) => timestamp >= since)
+      if (recent.length > 0) hits.set(key, recent)
+      else hits.delete(key)
+      return recent
+    },
+    addHit(key, timestamp) {
+      pruneHits(timestamp)
+      const existing = hits.get(key)
+      if (existing) existing.push(timestamp)
+      else hits.set(key, [timestamp])
+    },
+    getUsage(key, period) {
+      const entry = usage.get(key)
+      return entry?.period === period ? entry.seconds : 0
+    },
+    addUsage(key, period, seconds) {
+      // Drop every key's usage from previous days once a new day starts
+      if (period !== currentPeriod) {
+        for (const [usageKey, entry] of usage) {
+          if (entry.period !== period) usage.delete(usageKey)
+        }
+        currentPeriod = period
+      }
+      const entry = usage.get(key)
+      // Only the current period is kept, so stale days don't accumulate
+      if (entry?.period === period) entry.seconds += seconds
+      else usage.set(key, { period, seconds })
+    },
+  }
+}
+
+/**
+ * @description Default rate limit key: the client IP from proxy headers
+ * Uses the last x-forwarded-for entry (the one the proxy appended), since earlier entries
+ * come from the client. Only call this behind a proxy that sets these headers.
+ * @param req - Incoming request
+ * @returns Client IP, or 'anonymous' if unavailable
+ */
+export function getClientIpKey(req: Request): string {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+  return forwarded || req.headers.get('x-real-ip') || 'anonymous'
+}
+
+/**
+ * @description Create a rate limiter from handler options
+ * @param options - Rate limit configuration
+ * @returns Functions to check and record requests and audio usage
+ * @example
+ * const limiter = createRateLimiter({ maxRequests: 5, dailyAudioSeconds: 600 })
+ * const key = await limiter.getKey(req)
+ * const result = await limiter.checkRequest(key)
+ */
+export function createRateLimiter(options: SpeechToTextRateLimitOptions) {
+  const store = options.store ?? createMemoryRateLimitStore()
+  const windowMs = options.windowMs ?? DEFAULT_WINDOW_MS
+
+  const getKey = async (req: Request): Promise<string> =>
+    options.key ? options.key(req) : options.trustProxy ? getClientIpKey(req) : 'anonymous'
+
+  /**
+   * @description Check the sliding window and the exhausted quota, recording the request if allowed
+   */
+  const checkRequest = async (key: string, now = Date.now()): Promise<RateLimitResult> => {
+    if (options.maxRequests !== undefined) {
+      const recent = await store.getHits(key, now - windowMs)
+      if (recent.length >= options.maxRequests) {
+        const oldest = Math.min(...recent)
+        return {
+          allowed: false,
+          reason: 'requests',
+          retryAfterSeconds: Math.max(1, Math.ceil((oldest + windowMs - now) / 1000)),
+        }
+      }
+    }
+
+    const quota = await checkAudio(key, 0, now)
+    if (!quota.allowed) return quota
+
+    if (options.maxRequests !== undefined) await store.addHit(key, now)
+    return { allowed: true }
+  }
+
+  /**
+   * @description Check whether `seconds` more audio fits in today's budget
+   */
+  const checkAudio = async (
+    key: string,
+    seconds: number,
+    now = Date.now()
+  ): Promise<RateLimitResult> => {
+    if (options.dailyAudioSeconds === undefined) return { allowed: true }
+
+    const used = await store.getUsage(key, getPeriod(now))
+    // A zero-second check only fails once the budget is fully used
+    const exceeded =
+      seconds > 0 ? used + seconds > options.dailyAudioSeconds : used >= options.dailyAudioSeconds
+
+    if (!exceeded) return { allowed: true }
+
+    return {
+      allowed: false,
+      reason: 'audio-quota',
+      retryAfterSeconds: Math.max(1, Math.ceil((DAY_MS - (now % DAY_MS)) / 1000)),
+    }
+  }
+
+  /**
+   * @description Add transcribed audio seconds to today's usage
+   */
+  const recordAudio = async (key: string, seconds: number, now = Date.now()): Promise<void> => {
+    if (options.dailyAudioSeconds === undefined || seconds <= 0) return
+    await store.addUsage(key, getPeriod(now), seconds)
+  }
+
+  return { getKey, checkRequest, checkAudio, recordAudio }
+}
+
+/**
+ * @description Estimate the duration of compressed audio from its size
+ * Used to charge the quota when neither the WAV header nor the provider reports a duration
+ * @param byteLength - Upload size in bytes
+ * @returns Estimated duration in seconds
+ */
+export function estimateAudioSeconds(byteLength: number): number {
+  return byteLength / ESTIMATED_BYTES_PER_SECOND
+}
+
+/**
+ * @description Quota period for a timestamp (UTC day, e.g. '2026-01-31')
+ */
+function getPeriod(now: number): string {
+  return new Date(now).toISOString().slice(0, 10)
+}
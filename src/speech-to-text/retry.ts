@@ -0,0 +1,253 @@
+/**
+ * @description Retry and fallback for transcription providers
+ * Retries transient failures with exponential backoff, then walks an ordered fallback chain
+ */
+
+import createDebug from 'debug'
+
+import type {
+  RetryOptions,
+  TranscriptionFallback,
+  TranscriptionOptions,
+  TranscriptionProvider,
+} from './types'
+
+const debug = createDebug('liquidcn:speech-to-text')
+
+const DEFAULT_ATTEMPTS = 3
+const DEFAULT_INITIAL_DELAY_MS = 500
+const DEFAULT_BACKOFF_FACTOR = 2
+const DEFAULT_MAX_DELAY_MS = 8_000
+const DEFAULT_RETRYABLE_STATUSES = [408, 409, 429, 500, 502, 503, 504]
+
+/**
+ * @description Statuses blaming the request itself (bad form, too large, unreadable audio)
+ */
+const INVALID_REQUEST_STATUSES = [400, 413, 415, 422]
+
+/**
+ * @description Error thrown by providers for failed upstream calls
+ * The status lets the retry policy tell transient failures from real ones
+ * @example
+ * if (!response.ok) {
+ *   throw new TranscriptionProviderError(`Whisper failed: ${response.status}`, response.status)
+ * }
+ */
+export class TranscriptionProviderError extends Error {
+  override name = 'TranscriptionProviderError'
+
+  constructor(
+    message: string,
+    /**
+     * @description HTTP status of the failed upstream call
+     */
+    readonly status?: number,
+    /**
+     * @description Seconds the upstream asked to wait before retrying
+     */
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * @description Read the HTTP status of a provider error
+ * Understands TranscriptionProviderError and AI SDK APICallError
+ * @param error - Error thrown by a provider
+ * @returns HTTP status, or undefined if unknown
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) return undefined
+  const { status, statusCode } = error as { status?: unknown; statusCode?: unknown }
+  if (typeof status === 'number') return status
+  if (typeof statusCode === 'number') return statusCode
+  return undefined
+}
+
+/**
+ * @description Wrap a provider with a retry policy and an ordered fallback chain
+ * Each target is retried on retryable failures; once exhausted (or on any other failure, such
+ * as a 401 for a bad key or a 404 for an unknown model) the next fallback is tried.
+ * Invalid requests (400, 413, 415, 422) and cancellations are rethrown as-is, since the
+ * request itself is at fault. Every attempt is logged to the 'liquidcn:speech-to-text'
+ * debug namespace.
+ * @param provider - Primary provider
+ * @param options - Retry policy and fallbacks
+ * @returns Provider that applies the policy
+ * @example
+ * const provider = withRetry(openAITranscriptionProvider, {
+ *   retry: { attempts: 3 },
+ *   fallbacks: [{ model: 'gpt-4o-mini-transcribe' }, { provider: whisperProvider }],
+ * })
+ */
+export function withRetry(
+  provider: TranscriptionProvider,
+  options?: { retry?: RetryOptions | false; fallbacks?: TranscriptionFallback[] }
+): TranscriptionProvider {
+  const retry = options?.retry === false ? { attempts: 1 } : (options?.retry ?? {})
+  const targets = [{}, ...(options?.fallbacks ?? [])].map((fallback: TranscriptionFallback) => ({
+    provider: fallback.provider ?? provider,
+    model: fallback.model,
+  }))
+
+  const attemptsPerTarget = Math.max(1, retry.attempts ?? DEFAULT_ATTEMPTS)
+
+  const getTargetOptions = (target: (typeof targets)[number], base?: TranscriptionOptions) =>
+    target.model ? { ...base, model: target.model } : base
+
+  const getLabel = (target: (typeof targets)[number]) =>
+    `${target.provider.name}${target.model ? `/${target.model}` : ''}`
+
+  /**
+   * @description Log a failed attempt and decide what to do next
+   * Waits out the backoff before a retry; throws when the error must surface as-is
+   */
+  const handleFailure = async (
+    error: unknown,
+    context: { label: string; attempt: number; committed: boolean; signal?: AbortSignal }
+  ): Promise<'retry' | 'fallback'> => {
+    const { label, attempt, committed, signal } = context
+    debug('%s attempt %d failed (status %s): %O', label, attempt, getErrorStatus(error), error)
+
+    // Cancelled, output was already sent or the request itself is invalid - surface the error as-is
+    if (signal?.aborted || committed || isInvalidRequest(error)) throw error
+
+    if (attempt < attemptsPerTarget && isRetryable(error, retry)) {
+      const delay = getRetryDelay(error, attempt, retry)
+      debug('%s retrying in %dms', label, delay)
+      await sleep(delay, signal)
+      return 'retry'
+    }
+
+    debug('%s exhausted', label)
+    return 'fallback'
+  }
+
+  return {
+    name: provider.name,
+    async transcribe(audio, transcriptionOptions) {
+      let lastError: unknown
+
+      for (const target of targets) {
+        const label = getLabel(target)
+        for (let attempt = 1; attempt <= attemptsPerTarget; attempt++) {
+          try {
+            const result = await target.provider.transcribe(
+              audio,
+              getTargetOptions(target, transcriptionOptions)
+            )
+            debug('%s attempt %d succeeded', label, attempt)
+            return result
+          } catch (error) {
+            lastError = error
+            const next = await handleFailure(error, {
+              label,
+              attempt,
+              committed: false,
+              signal: transcriptionOptions?.signal,
+            })
+            if (next === 'fallback') break
+          }
+        }
+      }
+
+      throw lastError
+    },
+    // Deltas are forwarded as soon as a target produces them,
+    // so only failures before the first delta can be retried
+    async *transcribeStream(audio, transcriptionOptions) {
+      let lastError: unknown
+
+      for (const target of targets) {
+        const label = getLabel(target)
+        for (let attempt = 1; attempt <= attemptsPerTarget; attempt++) {
+          let committed = false
+          try {
+            const targetOptions = getTargetOptions(target, transcriptionOptions)
+            if (target.provider.transcribeStream) {
+              for await (const delta of target.provider.transcribeStream(audio, targetOptions)) {
+                committed = true
+                yield delta
+              }
+            } else {
+              yield (await target.provider.transcribe(audio, targetOptions)).text
+            }
+            debug('%s attempt %d succeeded', label, attempt)
+            return
+          } catch (error) {
+            lastError = error
+            const next = await handleFailure(error, {
+              label,
+              attempt,
+              committed,
+              signal: transcriptionOptions?.signal,
+            })
+            if (next === 'fallback') break
+          }
+        }
+      }
+
+      throw lastError
+    },
+  }
+}
+
+function isRetryable(error: unknown, retry: RetryOptions): boolean {
+  const status = getErrorStatus(error)
+  // Failures without a status are retried only when the request never reached the server
+  if (status === undefined) return error instanceof TypeError
+  return (retry.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES).includes(status)
+}
+
+function isInvalidRequest(error: unknown): boolean {
+  const status = getErrorStatus(error)
+  return status !== undefined && INVALID_REQUEST_STATUSES.includes(status)
+}
+
+function getRetryDelay(error: unknown, attempt: number, retry: RetryOptions): number {
+  const initial = retry.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS
+  const factor = retry.backoffFactor ?? DEFAULT_BACKOFF_FACTOR
+  const max = retry.maxDelayMs ?? DEFAULT_MAX_DELAY_MS
+  const backoff = Math.min(max, initial * factor ** (attempt - 1))
+
+  // Honour the upstream's Retry-After when it asks for longer
+  const retryAfterSeconds =
+    error instanceof TranscriptionProviderError
+      ? error.retryAfterSeconds
+      : parseRetryAfter(
+          (error as { responseHeaders?: Record<string, string> } | null)?.responseHeaders?.[
+            'retry-after'
+          ]
+        )
+
+  return retryAfterSeconds !== undefined
+    ? Math.min(max, Math.max(backoff, retryAfterSeconds * 1000))
+    : backoff
+}
+
+/**
+ * @description Parse a Retry-After header value in seconds
+ * @param value - Header value (delta seconds)
+ * @returns Seconds, or undefined if absent or not numeric
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -2,124 +2,213 @@
  * @description Server-side speech-to-text handler
  * Used by SDK consumers in their API routes
  *
- * @note This module requires optional dependencies: 'ai' and '@ai-sdk/openai'.
+ * @note The default OpenAI provider requires optional dependencies: 'ai' and '@ai-sdk/openai'.
  * Install them with: bun add ai @ai-sdk/openai
  */
 
-import { openai } from '@ai-sdk/openai'
-import { experimental_transcribe as transcribe } from 'ai'
-
+import { createTranscriptionCache, getTranscriptionCacheKey } from './cache'
+import { splitWavIntoChunks, transcribeChunks } from './chunking'
+import { openAITranscriptionProvider } from './providers'
+import { createRateLimiter, estimateAudioSeconds, type RateLimitResult } from './rate-limit'
+import { withRetry } from './retry'
 import type {
+  ChunkingOptions,
+  SpeechToTextErrorCode,
   SpeechToTextErrorResponse,
   SpeechToTextHandlerOptions,
   SpeechToTextResponse,
+  SpeechToTextStreamEvent,
+  TimestampGranularity,
   TranscriptionModel,
+  TranscriptionOptions,
+  TranscriptionProvider,
 } from './types'
-
-const DEFAULT_MODEL: TranscriptionModel = 'gpt-4o-transcribe'
+import {
+  createFileTooLargeError,
+  readFormData,
+  RequestBodyTooLargeError,
+  validateAudioDuration,
+  validateAudioFile,
+  validateContentLength,
+  validateWavHeader,
+} from './validation'
+import { getWavDurationSeconds } from './wav'
 
 /**
- * @description Transcribe audio using streaming via direct OpenAI API call.
- * Collects streamed transcript events and returns the full text.
+ * @description Core function to transcribe audio
+ * Uses the OpenAI provider unless another provider is given.
+ * Long WAV audio is split into chunks and stitched unless chunking is disabled.
+ * @param audioData - Audio data as Uint8Array
+ * @param options - Transcription options
+ * @returns Transcription result
+ * @throws Error if 'ai' or '@ai-sdk/openai' packages are not installed
  */
-async function transcribeStreaming(
+export async function transcribeAudio(
   audioData: Uint8Array,
-  options?: { model?: TranscriptionModel; language?: string }
+  options?: TranscriptionOptions & {
+    provider?: TranscriptionProvider
+    chunking?: ChunkingOptions | false
+  }
 ): Promise<SpeechToTextResponse> {
-  const model = options?.model || DEFAULT_MODEL
-  const formData = new FormData()
-  const audioFile = new File([Buffer.from(audioData)], 'audio.wav', { type: 'audio/wav' })
-  formData.append('file', audioFile)
-  formData.append('model', model)
-  formData.append('stream', 'true')
-  formData.append('response_format', 'text')
-  if (options?.language) formData.append('language', options.language)
-
-  const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-    method: 'POST',
-    headers: { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` },
-    body: formData,
-  })
+  const {
+    provider = openAITranscriptionProvider,
+    chunking = {},
+    ...transcriptionOptions
+  } = options ?? {}
+
+  const chunks = chunking === false ? null : splitWavIntoChunks(audioData, chunking)
+  if (chunks) return transcribeChunks(chunks, transcriptionOptions, provider, chunking || undefined)
+
+  return provider.transcribe(audioData, transcriptionOptions)
+}
+
+const TIMESTAMP_GRANULARITIES: TimestampGranularity[] = ['none', 'segment', 'word']
 
-  if (!response.ok) {
-    throw new Error(`OpenAI streaming transcription failed: ${response.status}`)
+/**
+ * @description Create a Server-Sent Events response streaming transcript deltas
+ * Emits `delta` events as text arrives, then a final `done` or `error` event
+ */
+function createStreamingResponse(
+  audioData: Uint8Array,
+  options: TranscriptionOptions,
+  {
+    provider,
+    chunking,
+    onResult,
+  }: {
+    provider: TranscriptionProvider
+    chunking?: ChunkingOptions | false
+    onResult?: (result: SpeechToTextResponse) => Promise<void>
   }
+): Response {
+  const encoder = new TextEncoder()
+  // Cancelling the response stream (client disconnect) aborts the provider call
+  const cancellation = new AbortController()
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, cancellation.signal])
+    : cancellation.signal
+  options = { ...options, signal }
 
-  // Collect streamed text chunks
-  const reader = response.body?.getReader()
-  if (!reader) throw new Error('No response body for streaming transcription')
-
-  const decoder = new TextDecoder()
-  let text = ''
-
-  while (true) {
-    const { done, value } = await reader.read()
-    if (done) break
-    const chunk = decoder.decode(value, { stream: true })
-    // SSE format: parse "data: {...}" lines
-    for (const line of chunk.split('\n')) {
-      if (line.startsWith('data: ') && !line.includes('[DONE]')) {
-        try {
-          const parsed = JSON.parse(line.slice(6))
-          if (parsed.text) text += parsed.text
-        } catch {
-          // Plain text streaming - append directly
-          text += line.slice(6)
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: SpeechToTextStreamEvent) => {
+        if (!cancellation.signal.aborted) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
         }
       }
-    }
-  }
 
-  return { text: text.trim() }
+      try {
+        // Streamed deltas carry no timings, so timestamped requests use a single result
+        const wantsTimestamps = options.timestamps !== undefined && options.timestamps !== 'none'
+
+        const chunks =
+          chunking === false ? null : splitWavIntoChunks(audioData, chunking || undefined)
+
+        if (chunks) {
+          // Long audio - emit each chunk's text in order as it completes
+          const result = await transcribeChunks(
+            chunks,
+            options,
+            provider,
+            chunking || undefined,
+            (delta) => send({ type: 'delta', delta })
+          )
+          await onResult?.(result)
+          send({ type: 'done', ...result })
+        } else if (provider.transcribeStream && !wantsTimestamps) {
+          let text = ''
+          for await (const delta of provider.transcribeStream(audioData, options)) {
+            text += delta
+            send({ type: 'delta', delta })
+          }
+          const result = { text: text.trim() }
+          await onResult?.(result)
+          send({ type: 'done', ...result })
+        } else {
+          // Provider can't stream - emit the full result as a single delta
+          const result = await provider.transcribe(audioData, options)
+          await onResult?.(result)
+          send({ type: 'delta', delta: result.text })
+          send({ type: 'done', ...result })
+        }
+      } catch (error) {
+        if (!cancellation.signal.aborted) {
+          console.error('Speech-to-text streaming error:', error)
+          send({ type: 'error', ...createProviderErrorBody(error) })
+        }
+      } finally {
+        if (!cancellation.signal.aborted) controller.close()
+      }
+    },
+    cancel() {
+      cancellation.abort()
+    },
+  })
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  })
 }
 
 /**
- * @description Core function to transcribe audio using OpenAI
- * Uses lightweight compression formatting (no segments/timestamps) for minimal response size.
- * Falls back to streaming if the standard call fails.
- * @param audioData - Audio data as Uint8Array
- * @param options - Transcription options
- * @returns Transcription result
- * @throws Error if 'ai' or '@ai-sdk/openai' packages are not installed
+ * @description HTTP statuses for transcription failures (499: client closed request)
  */
-export async function transcribeAudio(
-  audioData: Uint8Array,
-  options?: {
-    model?: TranscriptionModel
-    language?: string
+const ERROR_STATUS: Partial<Record<SpeechToTextErrorCode, number>> = {
+  TIMEOUT: 504,
+  ABORTED: 499,
+}
+
+/**
+ * @description Build the error body for a failed transcription
+ * Timed-out calls map to 'TIMEOUT', client disconnects to 'ABORTED',
+ * everything else to 'PROVIDER_ERROR'
+ */
+function createProviderErrorBody(error: unknown): SpeechToTextErrorResponse {
+  const details = error instanceof Error ? error.message : 'Unknown error'
+  const name = error instanceof Error ? error.name : undefined
+
+  if (name === 'TimeoutError') {
+    return { code: 'TIMEOUT', error: 'Transcription timed out', details }
   }
-): Promise<SpeechToTextResponse> {
-  const model = options?.model || DEFAULT_MODEL
-
-  try {
-    // Lightweight compression formatting: no timestampGranularities, just text output
-    const result = await transcribe({
-      model: openai.transcription(model),
-      audio: audioData,
-      providerOptions: {
-        openai: {
-          ...(options?.language && { language: options.language }),
-        },
-      },
-    })
+  if (name === 'AbortError') {
+    return { code: 'ABORTED', error: 'Transcription cancelled', details }
+  }
+  return { code: 'PROVIDER_ERROR', error: 'Failed to transcribe audio', details }
+}
 
-    return {
-      text: result.text,
-      language: result.language,
+/**
+ * @description Create a 429 response for a failed rate limit check
+ */
+function createRateLimitResponse(result: Extract<RateLimitResult, { allowed: false }>): Response {
+  return new Response(
+    JSON.stringify({
+      code: result.reason === 'requests' ? 'RATE_LIMITED' : 'QUOTA_EXCEEDED',
+      error: result.reason === 'requests' ? 'Too many requests' : 'Daily audio quota exceeded',
+      details: `Retry after ${result.retryAfterSeconds} seconds`,
+    } satisfies SpeechToTextErrorResponse),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': String(result.retryAfterSeconds),
+      },
     }
-  } catch {
-    // Fallback: use streaming transcription via direct API call
-    return transcribeStreaming(audioData, options)
-  }
+  )
 }
 
 /**
- * @description Create a speech-to-text API handler for Next.js/Express routes
+ * @description Create a speech-to-text API handler for Fetch-API routes (Next.js App Router, Hono, Bun, ...)
+ * Use toExpressHandler / toNodeHandler / toHonoHandler to mount it elsewhere
  * @param options - Handler configuration options
  * @returns Request handler function
  * @example
  * // Next.js App Router
- * import { createSpeechToTextHandler } from 'liquidcn'
+ * import { createSpeechToTextHandler } from 'liquidcn/speech-to-text'
  * import { auth } from '@/auth'
  *
  * const handler = createSpeechToTextHandler({
@@ -130,14 +219,55 @@ export async function transcribeAudio(
  * })
  *
  * export const POST = handler
+ *
+ * // Limit uploads on public endpoints
+ * const handler = createSpeechToTextHandler({
+ *   maxBytes: 10 * 1024 * 1024,
+ *   maxDurationSeconds: 120,
+ *   allowedMimeTypes: ['audio/*'],
+ * })
+ *
+ * // Free tier: 10 requests per minute and 10 minutes of audio per day
+ * const handler = createSpeechToTextHandler({
+ *   rateLimit: {
+ *     key: async () => (await auth())?.user?.id ?? 'anonymous',
+ *     maxRequests: 10,
+ *     dailyAudioSeconds: 600,
+ *   },
+ * })
+ *
+ * // Retry transient failures, then fall back to a cheaper model and another provider
+ * const handler = createSpeechToTextHandler({
+ *   retry: { attempts: 3, initialDelayMs: 500 },
+ *   fallbacks: [{ model: 'gpt-4o-mini-transcribe' }, { provider: whisperProvider }],
+ * })
+ *
+ * // Answer re-submitted recordings from an in-memory LRU cache for 10 minutes
+ * const handler = createSpeechToTextHandler({ cache: { ttlMs: 10 * 60 * 1000 } })
+ *
+ * // Give up on slow transcriptions (responds 504 with code 'TIMEOUT')
+ * const handler = createSpeechToTextHandler({ timeoutMs: 60_000 })
+ *
+ * // Clients opt into Server-Sent Events by sending `stream=true` in the FormData
+ *
+ * // Custom provider (self-hosted Whisper, mock, ...)
+ * const handler = createSpeechToTextHandler({
+ *   provider: { name: 'mock', transcribe: async () => ({ text: 'Hello' }) },
+ * })
  */
 export function createSpeechToTextHandler(options?: SpeechToTextHandlerOptions) {
+  const baseProvider = options?.provider ?? openAITranscriptionProvider
+  const provider = withRetry(baseProvider, { retry: options?.retry, fallbacks: options?.fallbacks })
+  const rateLimiter = options?.rateLimit ? createRateLimiter(options.rateLimit) : null
+  const cache = options?.cache ? createTranscriptionCache(options.cache) : null
+
   return async (req: Request): Promise<Response> => {
     try {
-      // Check for API key
-      if (!process.env.OPENAI_API_KEY) {
+      // Check for API key (only required by the default OpenAI provider)
+      if (baseProvider === openAITranscriptionProvider && !process.env.OPENAI_API_KEY) {
         return new Response(
           JSON.stringify({
+            code: 'MISSING_API_KEY',
             error: 'Missing OPENAI_API_KEY environment variable',
           } satisfies SpeechToTextErrorResponse),
           { status: 500, headers: { 'Content-Type': 'application/json' } }
@@ -149,34 +279,166 @@ export function createSpeechToTextHandler(options?: SpeechToTextHandlerOptions)
         const isAuthenticated = await options.authenticate(req)
         if (!isAuthenticated) {
           return new Response(
-            JSON.stringify({ error: 'Unauthorized' } satisfies SpeechToTextErrorResponse),
+            JSON.stringify({
+              code: 'UNAUTHORIZED',
+              error: 'Unauthorized',
+            } satisfies SpeechToTextErrorResponse),
             { status: 401, headers: { 'Content-Type': 'application/json' } }
           )
         }
       }
 
-      // Parse form data
-      const formData = await req.formData()
-      const audioFile = formData.get('audio') as File | null
+      // Apply rate limits before reading the upload
+      const rateLimitKey = rateLimiter ? await rateLimiter.getKey(req) : null
+      if (rateLimiter && rateLimitKey !== null) {
+        const limit = await rateLimiter.checkRequest(rateLimitKey)
+        if (!limit.allowed) return createRateLimitResponse(limit)
+      }
+
+      // Reject oversized uploads from their declared length before reading the body
+      const lengthError = validateContentLength(req, options)
+      if (lengthError) {
+        return new Response(JSON.stringify(lengthError.body), {
+          status: lengthError.status,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+
+      // Parse form data, reading no more than the size limit allows
+      let formData: FormData
+      try {
+        formData = await readFormData(req, options)
+      } catch (error) {
+        if (error instanceof RequestBodyTooLargeError && options?.maxBytes !== undefined) {
+          const sizeError = createFileTooLargeError(options.maxBytes, 'a larger request body')
+          return new Response(JSON.stringify(sizeError.body), {
+            status: sizeError.status,
+            headers: { 'Content-Type': 'application/json' },
+          })
+        }
+        return new Response(
+          JSON.stringify({
+            code: 'INVALID_REQUEST',
+            error: 'Request body must be multipart/form-data',
+            details: error instanceof Error ? error.message : undefined,
+          } satisfies SpeechToTextErrorResponse),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      const audioEntry = formData.get('audio')
+      const audioFile = audioEntry instanceof File ? audioEntry : null
       const language = (formData.get('language') as string) || undefined
-      const model =
-        (formData.get('model') as TranscriptionModel) || options?.defaultModel || DEFAULT_MODEL
+      const model = (formData.get('model') as TranscriptionModel) || options?.defaultModel
+      const stream = formData.get('stream') === 'true'
+      const timestamps = (formData.get('timestamps') as TimestampGranularity | null) || 'none'
 
       if (!audioFile) {
         return new Response(
           JSON.stringify({
+            code: 'NO_AUDIO',
             error: 'Audio file is required',
           } satisfies SpeechToTextErrorResponse),
           { status: 400, headers: { 'Content-Type': 'application/json' } }
         )
       }
 
+      if (!TIMESTAMP_GRANULARITIES.includes(timestamps)) {
+        return new Response(
+          JSON.stringify({
+            code: 'INVALID_REQUEST',
+            error: 'Invalid timestamps option',
+            details: `Expected one of: ${TIMESTAMP_GRANULARITIES.join(', ')}`,
+          } satisfies SpeechToTextErrorResponse),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Check the file's own size and type before copying it out of the form
+      const fileError = validateAudioFile(audioFile, options)
+      if (fileError) {
+        return new Response(JSON.stringify(fileError.body), {
+          status: fileError.status,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+
       // Convert File to Uint8Array
       const arrayBuffer = await audioFile.arrayBuffer()
       const audioData = new Uint8Array(arrayBuffer)
 
+      const audioError = validateWavHeader(audioData) ?? validateAudioDuration(audioData, options)
+      if (audioError) {
+        return new Response(JSON.stringify(audioError.body), {
+          status: audioError.status,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+
+      // Answer duplicate uploads from the cache, without calling the provider or charging the quota
+      const cacheKey = cache
+        ? await getTranscriptionCacheKey(audioData, { model, language, timestamps })
+        : null
+      const cached = cache && cacheKey !== null ? await cache.get(cacheKey) : undefined
+      if (cached) {
+        if (stream) {
+          return createStreamingResponse(
+            audioData,
+            {},
+            { provider: { name: 'cache', transcribe: async () => cached }, chunking: false }
+          )
+        }
+        return new Response(JSON.stringify(cached), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+
+      // Charge WAV audio against the quota up front. Once transcribed, whatever the provider
+      // reports beyond that is charged too; formats without a header duration fall back to an
+      // estimate from the upload size
+      const audioSeconds = getWavDurationSeconds(audioData)
+      if (rateLimiter && rateLimitKey !== null && audioSeconds !== null) {
+        const quota = await rateLimiter.checkAudio(rateLimitKey, audioSeconds)
+        if (!quota.allowed) return createRateLimitResponse(quota)
+        await rateLimiter.recordAudio(rateLimitKey, audioSeconds)
+      }
+
+      const onResult = async (result: SpeechToTextResponse) => {
+        if (rateLimiter && rateLimitKey !== null) {
+          const charged = audioSeconds ?? 0
+          const actual = Math.max(
+            charged,
+            result.duration || (audioSeconds ?? estimateAudioSeconds(audioData.byteLength))
+          )
+          await rateLimiter.recordAudio(rateLimitKey, actual - charged)
+        }
+        if (cache && cacheKey !== null) await cache.set(cacheKey, result)
+      }
+
+      // Abort the provider call when the client disconnects or the timeout elapses
+      const signal = options?.timeoutMs
+        ? AbortSignal.any([req.signal, AbortSignal.timeout(options.timeoutMs)])
+        : req.signal
+
+      // Stream partial transcripts when requested
+      if (stream) {
+        return createStreamingResponse(
+          audioData,
+          { model, language, timestamps, signal },
+          { provider, chunking: options?.chunking, onResult }
+        )
+      }
+
       // Transcribe
-      const result = await transcribeAudio(audioData, { model, language })
+      const result = await transcribeAudio(audioData, {
+        model,
+        language,
+        timestamps,
+        signal,
+        provider,
+        chunking: options?.chunking,
+      })
+      await onResult(result)
 
       return new Response(JSON.stringify(result), {
         status: 200,
@@ -184,13 +446,11 @@ export function createSpeechToTextHandler(options?: SpeechToTextHandlerOptions)
       })
     } catch (error) {
       console.error('Speech-to-text error:', error)
-      return new Response(
-        JSON.stringify({
-          error: 'Failed to transcribe audio',
-          details: error instanceof Error ? error.message : 'Unknown error',
-        } satisfies SpeechToTextErrorResponse),
-        { status: 500, headers: { 'Content-Type': 'application/json' } }
-      )
+      const body = createProviderErrorBody(error)
+      return new Response(JSON.stringify(body), {
+        status: ERROR_STATUS[body.code] ?? 500,
+        headers: { 'Content-Type': 'application/json' },
+      })
     }
   }
 }
@@ -0,0 +1,75 @@
+/**
+ * @description Minimal Server-Sent Events reader
+ * Shared by the server providers and the client hook, so it must stay environment-agnostic
+ */
+
+/**
+ * @description Read the data payloads of an SSE stream
+ * Lines are buffered across chunks, so payloads split between reads are yielded whole.
+ * Multiple `data:` lines in one event are joined with newlines, as the SSE spec requires.
+ * The `[DONE]` sentinel is skipped.
+ * @param body - Response body stream
+ * @returns Async generator of raw data payloads, one per event
+ * @example
+ * for await (const data of readServerSentEvents(response.body)) {
+ *   console.log(JSON.parse(data))
+ * }
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  // Data lines of the event being read, dispatched at the next blank line
+  let data: string[] = []
+
+  const dispatch = () => {
+    const payload = data.length > 0 ? data.join('\n') : null
+    data = []
+    return payload === '[DONE]' ? null : payload
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      const lines = buffer.split('\n')
+      // Keep the last (possibly incomplete) line for the next read
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        const trimmed = line.endsWith('\r') ? line.slice(0, -1) : line
+        if (trimmed === '') {
+          const payload = dispatch()
+          if (payload !== null) yield payload
+        } else {
+          const value = parseDataLine(trimmed)
+          if (value !== null) data.push(value)
+        }
+      }
+    }
+
+    // Be lenient with a final event that isn't followed by a blank line
+    const value = parseDataLine(buffer + decoder.decode())
+    if (value !== null) data.push(value)
+    const payload = dispatch()
+    if (payload !== null) yield payload
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * @description Read the value of a `data` field line, or null for other fields and comments
+ * A single space after the colon is not part of the value
+ */
+function parseDataLine(line: string): string | null {
+  const trimmed = line.endsWith('\r') ? line.slice(0, -1) : line
+  if (trimmed === 'data') return ''
+  if (!trimmed.startsWith('data:')) return null
+  const value = trimmed.slice(5)
+  return value.startsWith(' ') ? value.slice(1) : value
+}
@@ -8,6 +8,14 @@
  */
 export type TranscriptionModel = 'gpt-4o-transcribe' | 'gpt-4o-mini-transcribe' | 'whisper-1'
 
+/**
+ * @description Timestamp detail to include in transcription responses
+ * - 'none': text only
+ * - 'segment': phrase-level `segments`
+ * - 'word': word-level `words`
+ */
+export type TimestampGranularity = 'none' | 'segment' | 'word'
+
 /**
  * @description Request body for speech-to-text API (FormData fields)
  */
@@ -25,6 +33,17 @@ export interface SpeechToTextRequest {
    * @default 'gpt-4o-transcribe'
    */
   model?: TranscriptionModel
+  /**
+   * @description Stream partial transcript deltas as Server-Sent Events
+   * Sent as the string 'true' in FormData
+   * @default false
+   */
+  stream?: boolean
+  /**
+   * @description Timestamp detail to include in the response
+   * @default 'none'
+   */
+  timestamps?: TimestampGranularity
 }
 
 /**
@@ -45,6 +64,24 @@ export interface TranscriptSegment {
   endSecond: number
 }
 
+/**
+ * @description A single transcribed word with timestamps
+ */
+export interface TranscriptWord {
+  /**
+   * @description Transcribed word
+   */
+  text: string
+  /**
+   * @description Start time in seconds
+   */
+  startSecond: number
+  /**
+   * @description End time in seconds
+   */
+  endSecond: number
+}
+
 /**
  * @description Successful response from speech-to-text API
  */
@@ -57,6 +94,10 @@ export interface SpeechToTextResponse {
    * @description Transcript segments with timestamps
    */
   segments?: TranscriptSegment[]
+  /**
+   * @description Word-level timestamps
+   */
+  words?: TranscriptWord[]
   /**
    * @description Total audio duration in seconds
    */
@@ -67,10 +108,49 @@ export interface SpeechToTextResponse {
   language?: string
 }
 
+/**
+ * @description Machine-readable error codes for speech-to-text failures
+ * - 'MISSING_API_KEY': server is missing the provider API key
+ * - 'UNAUTHORIZED': authenticate callback rejected the request
+ * - 'INVALID_REQUEST': malformed request body or options
+ * - 'NO_AUDIO': request has no audio file
+ * - 'FILE_TOO_LARGE': upload exceeds maxBytes (413)
+ * - 'UNSUPPORTED_MEDIA_TYPE': upload type not in allowedMimeTypes (415), or a WAV upload with an
+ *   unreadable or inconsistent header (400)
+ * - 'AUDIO_TOO_LONG': audio exceeds maxDurationSeconds (422)
+ * - 'RATE_LIMITED': too many requests in the rate limit window (429)
+ * - 'QUOTA_EXCEEDED': daily audio budget used up (429)
+ * - 'PROVIDER_ERROR': transcription provider failed
+ * - 'TIMEOUT': request or provider call timed out
+ * - 'ABORTED': request was cancelled by the client
+ * - 'NETWORK': client could not reach the server
+ * - 'UNKNOWN': unrecognized failure
+ */
+export type SpeechToTextErrorCode =
+  | 'MISSING_API_KEY'
+  | 'UNAUTHORIZED'
+  | 'INVALID_REQUEST'
+  | 'NO_AUDIO'
+  | 'FILE_TOO_LARGE'
+  | 'UNSUPPORTED_MEDIA_TYPE'
+  | 'AUDIO_TOO_LONG'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'PROVIDER_ERROR'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'NETWORK'
+  | 'UNKNOWN'
+
 /**
  * @description Error response from speech-to-text API
  */
 export interface SpeechToTextErrorResponse {
+  /**
+   * @description Machine-readable error code, stable across releases
+   * Branch and localize on this instead of the message
+   */
+  code: SpeechToTextErrorCode
   /**
    * @description Error message
    */
@@ -81,6 +161,258 @@ export interface SpeechToTextErrorResponse {
   details?: string
 }
 
+/**
+ * @description Partial transcript event sent while streaming
+ */
+export interface SpeechToTextDeltaEvent {
+  type: 'delta'
+  /**
+   * @description Text fragment to append to the partial transcript
+   */
+  delta: string
+}
+
+/**
+ * @description Final event sent when a streamed transcription completes
+ */
+export interface SpeechToTextDoneEvent extends SpeechToTextResponse {
+  type: 'done'
+}
+
+/**
+ * @description Event sent when a streamed transcription fails
+ */
+export interface SpeechToTextErrorEvent extends SpeechToTextErrorResponse {
+  type: 'error'
+}
+
+/**
+ * @description Server-Sent Event payload of a streaming speech-to-text response
+ */
+export type SpeechToTextStreamEvent =
+  SpeechToTextDeltaEvent | SpeechToTextDoneEvent | SpeechToTextErrorEvent
+
+/**
+ * @description Options passed to a transcription provider
+ */
+export interface TranscriptionOptions {
+  /**
+   * @description Transcription model to use
+   * Providers fall back to their own default when omitted
+   */
+  model?: TranscriptionModel
+  /**
+   * @description Language code (e.g., 'en', 'es', 'fr')
+   */
+  language?: string
+  /**
+   * @description Timestamp detail to include in the result
+   * @default 'none'
+   */
+  timestamps?: TimestampGranularity
+  /**
+   * @description Aborts the provider call when the client disconnects or the handler times out
+   * Providers should pass this to their upstream requests
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * @description Pluggable transcription backend
+ * Implement this to use a self-hosted Whisper server, a third-party service or a local mock
+ * @example
+ * const mockProvider: TranscriptionProvider = {
+ *   name: 'mock',
+ *   transcribe: async () => ({ text: 'Hello world' }),
+ * }
+ */
+export interface TranscriptionProvider {
+  /**
+   * @description Provider name, used for logging
+   */
+  name: string
+  /**
+   * @description Transcribe raw audio bytes
+   * Throw to signal a failed transcription
+   */
+  transcribe: (audio: Uint8Array, options?: TranscriptionOptions) => Promise<SpeechToTextResponse>
+  /**
+   * @description Stream transcript text fragments as they are produced
+   * Optional - when omitted, streaming requests emit the full result as a single delta
+   */
+  transcribeStream?: (audio: Uint8Array, options?: TranscriptionOptions) => AsyncIterable<string>
+}
+
+/**
+ * @description Options for splitting long WAV audio into chunks
+ * Audio that fits in one chunk, or isn't WAV, is transcribed in a single call
+ */
+export interface ChunkingOptions {
+  /**
+   * @description Maximum chunk size in bytes (provider upload limit)
+   * @default 25165824 (24 MB)
+   */
+  maxChunkBytes?: number
+  /**
+   * @description Maximum chunk duration in seconds
+   * @default 600
+   */
+  maxChunkSeconds?: number
+  /**
+   * @description Audio shared by neighbouring chunks, so words at the cut aren't lost
+   * @default 2
+   */
+  overlapSeconds?: number
+  /**
+   * @description Maximum chunks transcribed at once
+   * @default 3
+   */
+  concurrency?: number
+}
+
+/**
+ * @description Retry policy for transient provider failures
+ */
+export interface RetryOptions {
+  /**
+   * @description Attempts per provider/model, including the first
+   * @default 3
+   */
+  attempts?: number
+  /**
+   * @description Delay before the first retry in milliseconds
+   * @default 500
+   */
+  initialDelayMs?: number
+  /**
+   * @description Multiplier applied to the delay after each retry
+   * @default 2
+   */
+  backoffFactor?: number
+  /**
+   * @description Upper bound for a single delay in milliseconds
+   * @default 8000
+   */
+  maxDelayMs?: number
+  /**
+   * @description Upstream HTTP statuses that are retried
+   * Network failures (no status) are always retried; invalid requests (400, 413, 415, 422)
+   * are rethrown without trying fallbacks, and other errors move on to the next fallback
+   * @default [408, 409, 429, 500, 502, 503, 504]
+   */
+  retryableStatuses?: number[]
+}
+
+/**
+ * @description Entry in the fallback chain, tried after the previous one is exhausted
+ * Omitted fields reuse the primary provider / requested model
+ */
+export interface TranscriptionFallback {
+  /**
+   * @description Provider to fall back to
+   */
+  provider?: TranscriptionProvider
+  /**
+   * @description Model to fall back to
+   */
+  model?: TranscriptionModel
+}
+
+/**
+ * @description Storage backend for cached transcription results
+ * Implement this with a shared store (e.g. Redis) when running multiple instances
+ */
+export interface TranscriptionCacheStore {
+  /**
+   * @description Get a cached result, or undefined on a miss or once expired
+   */
+  get: (key: string) => Promise<SpeechToTextResponse | undefined> | SpeechToTextResponse | undefined
+  /**
+   * @description Store a result for `ttlMs` milliseconds
+   */
+  set: (key: string, value: SpeechToTextResponse, ttlMs: number) => Promise<void> | void
+}
+
+/**
+ * @description Transcription cache options for createSpeechToTextHandler
+ */
+export interface TranscriptionCacheOptions {
+  /**
+   * @description How long results are reused, in milliseconds
+   * @default 3600000 (1 hour)
+   */
+  ttlMs?: number
+  /**
+   * @description Storage backend
+   * @default createMemoryTranscriptionCache()
+   */
+  store?: TranscriptionCacheStore
+}
+
+/**
+ * @description Storage backend for rate limiting and audio quotas
+ * Implement this with a shared store (e.g. Redis) when running multiple instances
+ */
+export interface RateLimitStore {
+  /**
+   * @description Get request timestamps (ms) for a key at or after `since`
+   * Older entries may be pruned
+   */
+  getHits: (key: string, since: number) => Promise<number[]> | number[]
+  /**
+   * @description Record a request timestamp (ms) for a key
+   */
+  addHit: (key: string, timestamp: number) => Promise<void> | void
+  /**
+   * @description Get seconds of audio used by a key in a period
+   */
+  getUsage: (key: string, period: string) => Promise<number> | number
+  /**
+   * @description Add seconds of audio used by a key in a period
+   */
+  addUsage: (key: string, period: string, seconds: number) => Promise<void> | void
+}
+
+/**
+ * @description Rate limit and quota options for createSpeechToTextHandler
+ */
+export interface SpeechToTextRateLimitOptions {
+  /**
+   * @description Derive the rate limit key (e.g. user ID) from the request
+   * @default Client IP from proxy headers when trustProxy is set, otherwise one shared key
+   */
+  key?: (req: Request) => Promise<string> | string
+  /**
+   * @description Read the client IP for the default key from x-forwarded-for / x-real-ip
+   * Only enable behind a proxy that sets these headers, since clients can send any value and
+   * would get a fresh limit on every request
+   * @default false
+   */
+  trustProxy?: boolean
+  /**
+   * @description Maximum requests per key within the sliding window
+   * If not provided, requests are not limited
+   */
+  maxRequests?: number
+  /**
+   * @description Sliding window length in milliseconds
+   * @default 60000
+   */
+  windowMs?: number
+  /**
+   * @description Daily budget of transcribed audio per key, in seconds (resets at UTC midnight)
+   * Usage is measured from the WAV header, or the provider-reported duration for other formats
+   * (estimated from the upload size when the provider doesn't report one)
+   * If not provided, audio is not budgeted
+   */
+  dailyAudioSeconds?: number
+  /**
+   * @description Store for request and usage counters
+   * @default createMemoryRateLimitStore()
+   */
+  store?: RateLimitStore
+}
+
 /**
  * @description Options for createSpeechToTextHandler
  */
@@ -96,4 +428,62 @@ export interface SpeechToTextHandlerOptions {
    * @default 'gpt-4o-transcribe'
    */
   defaultModel?: TranscriptionModel
+  /**
+   * @description Transcription provider to use
+   * @default openAITranscriptionProvider
+   */
+  provider?: TranscriptionProvider
+  /**
+   * @description Maximum upload size in bytes
+   * Larger uploads are rejected with 413
+   * If not provided, no size limit is enforced
+   */
+  maxBytes?: number
+  /**
+   * @description Maximum audio duration in seconds
+   * Longer audio is rejected with 422. Only enforced for WAV uploads,
+   * where the duration can be read from the header
+   */
+  maxDurationSeconds?: number
+  /**
+   * @description Allowed MIME types for uploads (e.g. ['audio/wav', 'audio/webm'] or ['audio/*'])
+   * Other types are rejected with 415. Parameters like ';codecs=opus' are ignored
+   * If not provided, any type is accepted
+   */
+  allowedMimeTypes?: string[]
+  /**
+   * @description Rate limits and daily audio quota
+   * Limited requests are rejected with 429 and a Retry-After header
+   * If not provided, no rate limiting is performed
+   */
+  rateLimit?: SpeechToTextRateLimitOptions
+  /**
+   * @description Split long WAV recordings into overlapping chunks and stitch the results
+   * Set to false to always send audio in a single call
+   * @default {}
+   */
+  chunking?: ChunkingOptions | false
+  /**
+   * @description Abort the transcription after this many milliseconds
+   * Timed-out requests are answered with 504 and the 'TIMEOUT' code
+   * If not provided, only client disconnects abort the provider call
+   */
+  timeoutMs?: number
+  /**
+   * @description Retry policy for transient provider failures (429/5xx)
+   * Set to false to fail on the first error
+   * @default { attempts: 3 }
+   */
+  retry?: RetryOptions | false
+  /**
+   * @description Ordered providers/models to try when the primary one keeps failing
+   * @example [{ model: 'gpt-4o-mini-transcribe' }, { provider: whisperProvider }]
+   */
+  fallbacks?: TranscriptionFallback[]
+  /**
+   * @description Reuse results for identical uploads (same audio bytes, model, language and timestamps)
+   * Cached responses skip the provider call and the audio quota
+   * If not provided, every upload is transcribed
+   */
+  cache?: TranscriptionCacheOptions
 }
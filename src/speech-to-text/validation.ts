@@ -0,0 +1,193 @@
+/**
+ * @description Upload validation for the speech-to-text handler
+ * Enforces size, MIME type and duration limits before audio reaches the provider
+ */
+
+import type { SpeechToTextErrorResponse, SpeechToTextHandlerOptions } from './types'
+import { getWavDurationSeconds, isWavFile, parseWav } from './wav'
+
+/**
+ * @description Failed validation result with the HTTP status to respond with
+ */
+export interface AudioValidationError {
+  status: 400 | 413 | 415 | 422
+  body: SpeechToTextErrorResponse
+}
+
+/**
+ * @description Allowance on top of maxBytes for the multipart boundaries and the other form
+ * fields, when limiting the whole request body
+ */
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024
+
+/**
+ * @description Thrown by readFormData when the request body exceeds the size limit
+ */
+export class RequestBodyTooLargeError extends Error {
+  override name = 'RequestBodyTooLargeError'
+}
+
+/**
+ * @description Check whether a MIME type matches an allow-list
+ * Parameters (e.g. ';codecs=opus') are ignored and 'audio/*' style wildcards are supported
+ * @param mimeType - MIME type of the upload
+ * @param allowedMimeTypes - Allowed MIME types
+ * @returns True if the MIME type is allowed
+ */
+export function isMimeTypeAllowed(mimeType: string, allowedMimeTypes: string[]): boolean {
+  const [type] = mimeType.toLowerCase().split(';')
+  const essence = type.trim()
+
+  return allowedMimeTypes.some((allowed) => {
+    const normalized = allowed.toLowerCase().split(';')[0].trim()
+    if (normalized.endsWith('/*')) return essence.startsWith(normalized.slice(0, -1))
+    return essence === normalized
+  })
+}
+
+/**
+ * @description Create the 413 error for an upload over maxBytes
+ * @param maxBytes - Configured limit
+ * @param received - Description of what was received
+ * @returns Validation error
+ */
+export function createFileTooLargeError(maxBytes: number, received: string): AudioValidationError {
+  return {
+    status: 413,
+    body: {
+      code: 'FILE_TOO_LARGE',
+      error: 'Audio file is too large',
+      details: `Maximum size is ${maxBytes} bytes, received ${received}`,
+    },
+  }
+}
+
+/**
+ * @description Validate the declared request size against maxBytes
+ * Runs before the body is read, so oversized uploads are rejected without buffering them
+ * @param req - Incoming request
+ * @param options - Handler options with the configured limit
+ * @returns Validation error, or null if the request may be read
+ */
+export function validateContentLength(
+  req: Request,
+  options?: Pick<SpeechToTextHandlerOptions, 'maxBytes'>
+): AudioValidationError | null {
+  if (options?.maxBytes === undefined) return null
+
+  const contentLength = Number(req.headers.get('Content-Length') ?? NaN)
+  if (!Number.isFinite(contentLength)) return null
+  if (contentLength <= options.maxBytes + MULTIPART_OVERHEAD_BYTES) return null
+
+  return createFileTooLargeError(options.maxBytes, `a ${contentLength} byte request body`)
+}
+
+/**
+ * @description Parse the multipart request body, reading at most maxBytes (plus room for the
+ * other form fields) so chunked or unknown-length uploads can't exhaust memory
+ * @param req - Incoming request
+ * @param options - Handler options with the configured limit
+ * @returns Parsed form data
+ * @throws RequestBodyTooLargeError if the body exceeds the limit
+ */
+export async function readFormData(
+  req: Request,
+  options?: Pick<SpeechToTextHandlerOptions, 'maxBytes'>
+): Promise<FormData> {
+  if (options?.maxBytes === undefined || !req.body) return req.formData()
+
+  const limit = options.maxBytes + MULTIPART_OVERHEAD_BYTES
+  const reader = req.body.getReader()
+  const chunks: Uint8Array<ArrayBuffer>[] = []
+  let size = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > limit) {
+      await reader.cancel()
+      throw new RequestBodyTooLargeError(`Request body exceeds ${limit} bytes`)
+    }
+    chunks.push(value)
+  }
+
+  return new Response(new Blob(chunks), {
+    headers: { 'Content-Type': req.headers.get('Content-Type') ?? '' },
+  }).formData()
+}
+
+/**
+ * @description Validate an uploaded file against the size and MIME type limits
+ * Runs before the file is read into memory
+ * @param file - Uploaded audio file
+ * @param options - Handler options with the configured limits
+ * @returns Validation error, or null if the file is accepted
+ */
+export function validateAudioFile(
+  file: File,
+  options?: Pick<SpeechToTextHandlerOptions, 'maxBytes' | 'allowedMimeTypes'>
+): AudioValidationError | null {
+  if (options?.maxBytes !== undefined && file.size > options.maxBytes) {
+    return createFileTooLargeError(options.maxBytes, `${file.size}`)
+  }
+
+  if (options?.allowedMimeTypes && !isMimeTypeAllowed(file.type, options.allowedMimeTypes)) {
+    return {
+      status: 415,
+      body: {
+        code: 'UNSUPPORTED_MEDIA_TYPE',
+        error: 'Unsupported audio type',
+        details: `Received '${file.type || 'unknown'}', allowed: ${options.allowedMimeTypes.join(', ')}`,
+      },
+    }
+  }
+
+  return null
+}
+
+/**
+ * @description Reject WAV uploads whose header can't be trusted
+ * Limits, chunking and the quota read the duration from the header, so a file with the WAV
+ * signature but an unreadable or inconsistent header (e.g. a forged byteRate) is refused
+ * @param audioData - Uploaded audio bytes
+ * @returns Validation error, or null if the audio is accepted
+ */
+export function validateWavHeader(audioData: Uint8Array): AudioValidationError | null {
+  if (!isWavFile(audioData) || parseWav(audioData)) return null
+
+  return {
+    status: 400,
+    body: {
+      code: 'UNSUPPORTED_MEDIA_TYPE',
+      error: 'Invalid WAV header',
+      details: 'Expected a data chunk and byteRate equal to sampleRate * blockAlign',
+    },
+  }
+}
+
+/**
+ * @description Validate the audio duration against the configured limit
+ * Duration is only known for WAV uploads; other formats pass unchecked
+ * @param audioData - Uploaded audio bytes
+ * @param options - Handler options with the configured limit
+ * @returns Validation error, or null if the audio is accepted
+ */
+export function validateAudioDuration(
+  audioData: Uint8Array,
+  options?: Pick<SpeechToTextHandlerOptions, 'maxDurationSeconds'>
+): AudioValidationError | null {
+  if (options?.maxDurationSeconds === undefined) return null
+
+  const duration = getWavDurationSeconds(audioData)
+  if (duration === null || duration <= options.maxDurationSeconds) return null
+
+  return {
+    status: 422,
+    body: {
+      code: 'AUDIO_TOO_LONG',
+      error: 'Audio is too long',
+      details: `Maximum duration is ${options.maxDurationSeconds}s, received ${duration.toFixed(1)}s`,
+    },
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * @description Environment-agnostic WAV encoding and decoding
+ * Pure TypeScript (no Web Audio or Node APIs), shared by the client recorder and server chunking
+ */
+
+/**
+ * @description Sample encodings supported by encodeWav and decodeWav
+ * 'pcm8' is unsigned, the other PCM encodings are signed little-endian integers
+ */
+export type WavEncoding = 'pcm8' | 'pcm16' | 'pcm24' | 'pcm32' | 'float32' | 'float64'
+
+/**
+ * @description Decoded audio as planar Float32 channels in the range [-1, 1]
+ */
+export interface PcmAudio {
+  channels: Float32Array[]
+  sampleRate: number
+}
+
+const FORMAT_PCM = 1
+const FORMAT_IEEE_FLOAT = 3
+const FORMAT_EXTENSIBLE = 0xfffe
+
+const BYTES_PER_SAMPLE: Record<WavEncoding, number> = {
+  pcm8: 1,
+  pcm16: 2,
+  pcm24: 3,
+  pcm32: 4,
+  float32: 4,
+  float64: 8,
+}
+
+/**
+ * @description Layout of a WAV file
+ */
+export interface WavInfo {
+  /**
+   * @description Number of interleaved channels
+   */
+  channels: number
+  /**
+   * @description Samples per second
+   */
+  sampleRate: number
+  /**
+   * @description Bytes per second of audio
+   */
+  byteRate: number
+  /**
+   * @description Bytes per sample frame (all channels)
+   */
+  blockAlign: number
+  /**
+   * @description Sample encoding, or null for formats that can't be decoded (e.g. mu-law, ADPCM)
+   */
+  encoding: WavEncoding | null
+  /**
+   * @description Raw 'fmt ' chunk payload, copied verbatim into slices
+   */
+  fmtChunk: Uint8Array
+  /**
+   * @description Byte offset of the sample data
+   */
+  dataOffset: number
+  /**
+   * @description Byte length of the sample data
+   */
+  dataSize: number
+}
+
+/**
+ * @description Check for the RIFF/WAVE signature, whether or not the rest of the file is readable
+ * @param audioData - File bytes
+ * @returns True if the data claims to be a WAV file
+ */
+export function isWavFile(audioData: Uint8Array): boolean {
+  if (audioData.byteLength < 12) return false
+  const view = new DataView(audioData.buffer, audioData.byteOffset, audioData.byteLength)
+  return readTag(view, 0) === 'RIFF' && readTag(view, 8) === 'WAVE'
+}
+
+/**
+ * @description Parse the header of a WAV file
+ * Headers whose byteRate doesn't match sampleRate * blockAlign are rejected, so a forged
+ * byteRate can't misreport the duration
+ * @param audioData - WAV file bytes
+ * @returns WAV layout, or null if the data isn't a readable WAV file
+ */
+export function parseWav(audioData: Uint8Array): WavInfo | null {
+  if (!isWavFile(audioData)) return null
+
+  const view = new DataView(audioData.buffer, audioData.byteOffset, audioData.byteLength)
+
+  let fmt: Omit<WavInfo, 'dataOffset' | 'dataSize'> | null = null
+  let offset = 12
+
+  // Walk the chunks until both 'fmt ' and 'data' are found
+  while (offset + 8 <= view.byteLength) {
+    const tag = readTag(view, offset)
+    const size = view.getUint32(offset + 4, true)
+
+    if (tag === 'fmt ' && offset + 24 <= view.byteLength) {
+      const fmtChunk = audioData.subarray(offset + 8, offset + 8 + size)
+      fmt = {
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        byteRate: view.getUint32(offset + 16, true),
+        blockAlign: view.getUint16(offset + 20, true),
+        encoding: getEncoding(fmtChunk),
+        fmtChunk,
+      }
+    } else if (tag === 'data') {
+      if (!fmt || !fmt.sampleRate || !fmt.blockAlign) return null
+      if (fmt.byteRate !== fmt.sampleRate * fmt.blockAlign) return null
+      // Streamed WAVs may declare an oversized data chunk - clamp to what was uploaded
+      const dataSize = Math.min(size, view.byteLength - offset - 8)
+      return { ...fmt, dataOffset: offset + 8, dataSize }
+    }
+
+    // Chunks are padded to an even size
+    offset += 8 + size + (size % 2)
+  }
+
+  return null
+}
+
+/**
+ * @description Read the duration of a WAV file from its header
+ * @param audioData - WAV file bytes
+ * @returns Duration in seconds, or null if the data isn't a readable WAV file
+ */
+export function getWavDurationSeconds(audioData: Uint8Array): number | null {
+  const info = parseWav(audioData)
+  return info ? info.dataSize / (info.sampleRate * info.blockAlign) : null
+}
+
+/**
+ * @description Create a standalone WAV file from a time range of another WAV file
+ * The range is aligned to whole sample frames
+ * @param audioData - Source WAV file bytes
+ * @param info - Parsed layout of the source
+ * @param startSecond - Range start in seconds
+ * @param endSecond - Range end in seconds
+ * @returns WAV file bytes for the range
+ */
+export function sliceWav(
+  audioData: Uint8Array,
+  info: WavInfo,
+  startSecond: number,
+  endSecond: number
+): Uint8Array {
+  const toByte = (second: number) =>
+    Math.min(
+      info.dataSize,
+      Math.max(0, Math.round((second * info.byteRate) / info.blockAlign) * info.blockAlign)
+    )
+
+  const start = toByte(startSecond)
+  const end = toByte(endSecond)
+  const data = audioData.subarray(info.dataOffset + start, info.dataOffset + end)
+  const fmtSize = info.fmtChunk.byteLength
+  const fmtPadding = fmtSize % 2
+
+  const output = new Uint8Array(12 + 8 + fmtSize + fmtPadding + 8 + data.byteLength)
+  const view = new DataView(output.buffer)
+
+  writeTag(view, 0, 'RIFF')
+  view.setUint32(4, output.byteLength - 8, true)
+  writeTag(view, 8, 'WAVE')
+  writeTag(view, 12, 'fmt ')
+  view.setUint32(16, fmtSize, true)
+  output.set(info.fmtChunk, 20)
+
+  const dataHeader = 20 + fmtSize + fmtPadding
+  writeTag(view, dataHeader, 'data')
+  view.setUint32(dataHeader + 4, data.byteLength, true)
+  output.set(data, dataHeader + 8)
+
+  return output
+}
+
+/**
+ * @description Encode audio as a WAV file
+ * Samples are clamped to [-1, 1] and rounded to the nearest integer step
+ * @param audio - Planar channels; all channels must have the same length
+ * @param options - Sample encoding
+ * @returns WAV file bytes
+ * @example
+ * const wav = encodeWav({ channels: [left, right], sampleRate: 48000 })
+ * const float = encodeWav(audio, { encoding: 'float32' })
+ */
+export function encodeWav(
+  audio: PcmAudio,
+  options?: { encoding?: WavEncoding }
+): Uint8Array<ArrayBuffer> {
+  const encoding = options?.encoding ?? 'pcm16'
+  const isFloat = encoding === 'float32' || encoding === 'float64'
+  const bytesPerSample = BYTES_PER_SAMPLE[encoding]
+  const numChannels = audio.channels.length
+  const frameCount = audio.channels[0]?.length ?? 0
+  const blockAlign = numChannels * bytesPerSample
+  const dataSize = frameCount * blockAlign
+
+  // Non-PCM formats carry a cbSize field and a 'fact' chunk with the frame count
+  const fmtSize = isFloat ? 18 : 16
+  const factSize = isFloat ? 12 : 0
+  const dataHeader = 20 + fmtSize + factSize
+
+  const output = new Uint8Array(dataHeader + 8 + dataSize + (dataSize % 2))
+  const view = new DataView(output.buffer)
+
+  writeTag(view, 0, 'RIFF')
+  view.setUint32(4, output.byteLength - 8, true)
+  writeTag(view, 8, 'WAVE')
+  writeTag(view, 12, 'fmt ')
+  view.setUint32(16, fmtSize, true)
+  view.setUint16(20, isFloat ? FORMAT_IEEE_FLOAT : FORMAT_PCM, true)
+  view.setUint16(22, numChannels, true)
+  view.setUint32(24, audio.sampleRate, true)
+  view.setUint32(28, audio.sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, bytesPerSample * 8, true)
+
+  if (isFloat) {
+    view.setUint16(36, 0, true)
+    writeTag(view, 38, 'fact')
+    view.setUint32(42, 4, true)
+    view.setUint32(46, frameCount, true)
+  }
+
+  writeTag(view, dataHeader, 'data')
+  view.setUint32(dataHeader + 4, dataSize, true)
+
+  let offset = dataHeader + 8
+  for (let i = 0; i < frameCount; i++) {
+    for (const channel of audio.channels) {
+      writeSample(view, offset, channel[i], encoding)
+      offset += bytesPerSample
+    }
+  }
+
+  return output
+}
+
+/**
+ * @description Decode a WAV file into planar Float32 channels
+ * @param audioData - WAV file bytes
+ * @returns Decoded audio and its encoding, or null if the data isn't a decodable WAV file
+ * @example
+ * const decoded = decodeWav(bytes)
+ * if (decoded) console.log(decoded.sampleRate, decoded.channels.length, decoded.encoding)
+ */
+export function decodeWav(audioData: Uint8Array): (PcmAudio & { encoding: WavEncoding }) | null {
+  const info = parseWav(audioData)
+  if (!info?.encoding || info.channels === 0) return null
+
+  const { encoding } = info
+  const bytesPerSample = BYTES_PER_SAMPLE[encoding]
+  if (info.blockAlign < info.channels * bytesPerSample) return null
+
+  const frameCount = Math.floor(info.dataSize / info.blockAlign)
+  const channels = Array.from({ length: info.channels }, () => new Float32Array(frameCount))
+  const view = new DataView(audioData.buffer, audioData.byteOffset, audioData.byteLength)
+
+  for (let i = 0; i < frameCount; i++) {
+    const frameOffset = info.dataOffset + i * info.blockAlign
+    for (let channel = 0; channel < info.channels; channel++) {
+      channels[channel][i] = readSample(view, frameOffset + channel * bytesPerSample, encoding)
+    }
+  }
+
+  return { channels, sampleRate: info.sampleRate, encoding }
+}
+
+/**
+ * @description Read the sample encoding from a 'fmt ' chunk payload
+ * WAVE_FORMAT_EXTENSIBLE stores the real format tag at the start of its SubFormat GUID
+ */
+function getEncoding(fmtChunk: Uint8Array): WavEncoding | null {
+  // Too short to hold bitsPerSample
+  if (fmtChunk.byteLength < 16) return null
+
+  const view = new DataView(fmtChunk.buffer, fmtChunk.byteOffset, fmtChunk.byteLength)
+  let formatTag = view.getUint16(0, true)
+  const bitsPerSample = view.getUint16(14, true)
+
+  if (formatTag === FORMAT_EXTENSIBLE) {
+    if (fmtChunk.byteLength < 26) return null
+    formatTag = view.getUint16(24, true)
+  }
+
+  if (formatTag === FORMAT_PCM) {
+    if (bitsPerSample === 8) return 'pcm8'
+    if (bitsPerSample === 16) return 'pcm16'
+    if (bitsPerSample === 24) return 'pcm24'
+    if (bitsPerSample === 32) return 'pcm32'
+  } else if (formatTag === FORMAT_IEEE_FLOAT) {
+    if (bitsPerSample === 32) return 'float32'
+    if (bitsPerSample === 64) return 'float64'
+  }
+  return null
+}
+
+/**
+ * @description Read one sample as a float
+ * Integers are scaled by 2^(bits - 1), so decoding and re-encoding is lossless
+ */
+function readSample(view: DataView, offset: number, encoding: WavEncoding): number {
+  switch (encoding) {
+    case 'pcm8':
+      return (view.getUint8(offset) - 0x80) / 0x80
+    case 'pcm16':
+      return view.getInt16(offset, true) / 0x8000
+    case 'pcm24': {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8)
+      return ((view.getInt8(offset + 2) << 16) | value) / 0x800000
+    }
+    case 'pcm32':
+      return view.getInt32(offset, true) / 0x80000000
+    case 'float32':
+      return view.getFloat32(offset, true)
+    case 'float64':
+      return view.getFloat64(offset, true)
+  }
+}
+
+function writeSample(view: DataView, offset: number, sample: number, encoding: WavEncoding) {
+  const value = Math.max(-1, Math.min(1, sample || 0))
+
+  switch (encoding) {
+    case 'pcm8':
+      view.setUint8(offset, toInteger(value, 0x80) + 0x80)
+      break
+    case 'pcm16':
+      view.setInt16(offset, toInteger(value, 0x8000), true)
+      break
+    case 'pcm24': {
+      const integer = toInteger(value, 0x800000)
+      view.setUint8(offset, integer & 0xff)
+      view.setUint8(offset + 1, (integer >> 8) & 0xff)
+      view.setInt8(offset + 2, integer >> 16)
+      break
+    }
+    case 'pcm32':
+      view.setInt32(offset, toInteger(value, 0x80000000), true)
+      break
+    case 'float32':
+      view.setFloat32(offset, value, true)
+      break
+    case 'float64':
+      view.setFloat64(offset, value, true)
+      break
+  }
+}
+
+/**
+ * @description Scale a float in [-1, 1] to a signed integer with the given full-scale value
+ */
+function toInteger(value: number, scale: number): number {
+  return Math.max(-scale, Math.min(scale - 1, Math.round(value * scale)))
+}
+
+function readTag(view: DataView, offset: number): string {
+  let tag = ''
+  for (let i = 0; i < 4; i++) {
+    tag += String.fromCharCode(view.getUint8(offset + i))
+  }
+  return tag
+}
+
+function writeTag(view: DataView, offset: number, tag: string) {
+  for (let i = 0; i < tag.length; i++) {
+    view.setUint8(offset + i, tag.charCodeAt(i))
+  }
+}
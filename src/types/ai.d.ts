@@ -19,6 +19,8 @@ declare module 'ai' {
     model: unknown
     audio: Uint8Array
     providerOptions?: Record<string, unknown>
+    abortSignal?: AbortSignal
+    maxRetries?: number
   }
 
   export function experimental_transcribe(options: TranscribeOptions): Promise<TranscribeResult>
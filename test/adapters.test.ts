@@ -0,0 +1,61 @@
+import { createServer } from 'node:http'
+import { connect } from 'node:net'
+
+import { describe, expect, it } from 'bun:test'
+
+import { toNodeHandler } from '../src/speech-to-text/adapters'
+
+/**
+ * @description Send a raw HTTP request to a node:http server and return the response text
+ */
+async function sendRaw(handler: Parameters<typeof createServer>[1], request: string) {
+  const server = createServer(handler)
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as { port: number }
+
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      let response = ''
+      const socket = connect(port, '127.0.0.1', () => socket.end(request))
+      socket.on('data', (data) => (response += data))
+      socket.on('end', () => resolve(response))
+      socket.on('error', reject)
+    })
+  } finally {
+    server.close()
+  }
+}
+
+describe('#ADAPTERS', () => {
+  it('Ignores a malformed Host header', async () => {
+    const response = await sendRaw(
+      toNodeHandler(async (req) => new Response(new URL(req.url).pathname)),
+      'GET /api/speech-to-text HTTP/1.1\r\nHost: a b\r\nConnection: close\r\n\r\n'
+    )
+
+    expect(response).toStartWith('HTTP/1.1 200')
+    expect(response).toContain('/api/speech-to-text')
+  })
+
+  it('Answers 400 for a request URL that cannot be parsed', async () => {
+    const response = await sendRaw(
+      toNodeHandler(async () => new Response('unreachable')),
+      'GET // HTTP/1.1\r\nHost: localhost\r\nConnection: close\r\n\r\n'
+    )
+
+    expect(response).toStartWith('HTTP/1.1 400')
+    expect(response).toContain('"code":"INVALID_REQUEST"')
+  })
+
+  it('Answers 500 instead of rejecting when the handler throws', async () => {
+    const response = await sendRaw(
+      toNodeHandler(async () => {
+        throw new Error('Handler failed')
+      }),
+      'GET / HTTP/1.1\r\nHost: localhost\r\nConnection: close\r\n\r\n'
+    )
+
+    expect(response).toStartWith('HTTP/1.1 500')
+    expect(response).toContain('"code":"UNKNOWN"')
+  })
+})
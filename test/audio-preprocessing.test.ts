@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'bun:test'
+
+import {
+  downmixToMono,
+  normalizePeak,
+  preprocessAudio,
+  resample,
+  trimSilence,
+} from '../src/client/utils/audio-preprocessing'
+
+describe('#AUDIO_PREPROCESSING', () => {
+  it('Averages channels into mono', () => {
+    const mono = downmixToMono({
+      channels: [Float32Array.of(1, 0.5, -1), Float32Array.of(0, 0.5, 1)],
+      sampleRate: 8000,
+    })
+
+    expect(mono.sampleRate).toBe(8000)
+    expect(mono.channels).toEqual([Float32Array.of(0.5, 0.5, 0)])
+  })
+
+  it('Downsamples by averaging the samples each output covers', () => {
+    const audio = { channels: [Float32Array.of(1, 0, 0.5, 0.5, -1, 0.5, 0.25)], sampleRate: 48000 }
+    const resampled = resample(audio, 16000)
+
+    expect(resampled.sampleRate).toBe(16000)
+    expect(resampled.channels).toEqual([Float32Array.of(0.5, 0)])
+    // Never upsamples
+    expect(resample(audio, 96000)).toBe(audio)
+  })
+
+  it('Trims silence outside the padding', () => {
+    // 10 ms frames of 10 samples at 1 kHz, with sound only in the third frame
+    const samples = new Float32Array(60)
+    samples[25] = 0.5
+    const trimmed = trimSilence({ channels: [samples], sampleRate: 1000 }, { paddingMs: 10 })
+
+    expect(trimmed.channels[0]).toHaveLength(30)
+    expect(trimmed.channels[0][15]).toBe(0.5)
+    // Silent audio is left alone
+    const silent = { channels: [new Float32Array(60)], sampleRate: 1000 }
+    expect(trimSilence(silent)).toBe(silent)
+  })
+
+  it('Normalizes the peak to the target level, with limited gain', () => {
+    const normalized = normalizePeak(
+      { channels: [Float32Array.of(0.25, -0.5)], sampleRate: 8000 },
+      { peakDb: 0 }
+    )
+    expect(Array.from(normalized.channels[0])).toEqual([0.5, -1])
+
+    const quiet = normalizePeak({ channels: [Float32Array.of(0.001)], sampleRate: 8000 })
+    expect(quiet.channels[0][0]).toBeCloseTo(0.01, 6)
+  })
+
+  it('Runs the whole pipeline to 16 kHz mono', () => {
+    const loud = Float32Array.from({ length: 4800 }, (_, i) => Math.sin(i / 10) * 0.1)
+    const processed = preprocessAudio({ channels: [loud, loud], sampleRate: 48000 })
+
+    expect(processed.sampleRate).toBe(16000)
+    expect(processed.channels).toHaveLength(1)
+    expect(processed.channels[0]).toHaveLength(1600)
+    const peak = Math.max(...processed.channels[0].map(Math.abs))
+    expect(peak).toBeCloseTo(10 ** (-1 / 20), 2)
+  })
+})
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, setSystemTime } from 'bun:test'
+
+import {
+  createMemoryTranscriptionCache,
+  createTranscriptionCache,
+  getTranscriptionCacheKey,
+} from '../src/speech-to-text/cache'
+
+describe('#CACHE', () => {
+  afterEach(() => {
+    setSystemTime()
+  })
+
+  it('Evicts the least recently used entry when full', () => {
+    const store = createMemoryTranscriptionCache({ maxEntries: 2 })
+
+    store.set('a', { text: 'a' }, 60_000)
+    store.set('b', { text: 'b' }, 60_000)
+    // Reading 'a' makes 'b' the least recently used
+    expect(store.get('a')).toEqual({ text: 'a' })
+    store.set('c', { text: 'c' }, 60_000)
+
+    expect(store.get('b')).toBeUndefined()
+    expect(store.get('a')).toEqual({ text: 'a' })
+    expect(store.get('c')).toEqual({ text: 'c' })
+  })
+
+  it('Expires entries after their TTL', () => {
+    const store = createMemoryTranscriptionCache()
+    setSystemTime(new Date('2026-01-31T12:00:00Z'))
+    store.set('a', { text: 'a' }, 1_000)
+
+    setSystemTime(new Date('2026-01-31T12:00:00.999Z'))
+    expect(store.get('a')).toEqual({ text: 'a' })
+
+    setSystemTime(new Date('2026-01-31T12:00:01Z'))
+    expect(store.get('a')).toBeUndefined()
+  })
+
+  it('Skips storing when the TTL is not positive', async () => {
+    const store = createMemoryTranscriptionCache()
+    const cache = createTranscriptionCache({ store, ttlMs: 0 })
+
+    await cache.set('a', { text: 'a' })
+    expect(await cache.get('a')).toBeUndefined()
+  })
+
+  it('Keys results by audio bytes and the options that change them', async () => {
+    const audio = new Uint8Array([1, 2, 3])
+    const key = await getTranscriptionCacheKey(audio, { language: 'en' })
+
+    expect(key).toMatch(/^[0-9a-f]{64}:default:en:none$/)
+    expect(await getTranscriptionCacheKey(new Uint8Array([1, 2, 3]), { language: 'en' })).toBe(key)
+    expect(await getTranscriptionCacheKey(new Uint8Array([1, 2, 4]), { language: 'en' })).not.toBe(
+      key
+    )
+    expect(await getTranscriptionCacheKey(audio, { language: 'en', timestamps: 'word' })).not.toBe(
+      key
+    )
+  })
+})
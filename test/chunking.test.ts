@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'bun:test'
+
+import {
+  type AudioChunk,
+  mergeOverlappingText,
+  splitWavIntoChunks,
+  transcribeChunks,
+} from '../src/speech-to-text/chunking'
+import { encodeWav, getWavDurationSeconds } from '../src/speech-to-text/wav'
+
+function createChunks(count: number): AudioChunk[] {
+  return Array.from({ length: count }, (_, i) => ({
+    audio: new Uint8Array([i]),
+    startSecond: i * 8,
+    endSecond: i * 8 + 10,
+  }))
+}
+
+describe('#CHUNKING', () => {
+  it('Joins transcripts without repeating the overlap', () => {
+    expect(mergeOverlappingText('we should ship it on', 'ship it on Friday')).toBe(
+      'we should ship it on Friday'
+    )
+    // Punctuation and case differences still match, and edge fragments are skipped
+    expect(mergeOverlappingText('Ship it, on Friday.', 'ip on friday we rest')).toBe(
+      'Ship it, on Friday. we rest'
+    )
+    expect(mergeOverlappingText('hello there', 'general kenobi')).toBe('hello there general kenobi')
+    expect(mergeOverlappingText('', '  first  words ')).toBe('first words')
+    expect(mergeOverlappingText('kept', '   ')).toBe('kept')
+  })
+
+  it('Splits long WAV audio into overlapping chunks', () => {
+    const wav = encodeWav({ channels: [new Float32Array(8000 * 25)], sampleRate: 8000 })
+    const chunks = splitWavIntoChunks(wav, { maxChunkSeconds: 10, overlapSeconds: 2 })
+
+    expect(chunks?.map(({ startSecond, endSecond }) => [startSecond, endSecond])).toEqual([
+      [0, 10],
+      [8, 18],
+      [16, 25],
+    ])
+    expect(chunks?.map((chunk) => getWavDurationSeconds(chunk.audio))).toEqual([10, 10, 9])
+  })
+
+  it('Keeps short or non-WAV audio in one piece', () => {
+    const wav = encodeWav({ channels: [new Float32Array(8000 * 5)], sampleRate: 8000 })
+
+    expect(splitWavIntoChunks(wav, { maxChunkSeconds: 10 })).toBeNull()
+    expect(splitWavIntoChunks(new Uint8Array(1000), { maxChunkSeconds: 1 })).toBeNull()
+  })
+
+  it('Stitches timestamps onto the source timeline, once per overlap', async () => {
+    const result = await transcribeChunks(
+      createChunks(2),
+      {},
+      {
+        name: 'mock',
+        transcribe: async (audio) => ({
+          text: audio[0] === 0 ? 'one two' : 'two three',
+          segments:
+            audio[0] === 0
+              ? [
+                  { text: 'one', startSecond: 1, endSecond: 2 },
+                  { text: 'two', startSecond: 8.5, endSecond: 9.5 },
+                ]
+              : [
+                  { text: 'two', startSecond: 0.5, endSecond: 1.5 },
+                  { text: 'three', startSecond: 3, endSecond: 4 },
+                ],
+        }),
+      }
+    )
+
+    expect(result.text).toBe('one two three')
+    expect(result.duration).toBe(18)
+    expect(result.segments).toEqual([
+      { text: 'one', startSecond: 1, endSecond: 2 },
+      { text: 'two', startSecond: 8.5, endSecond: 9.5 },
+      { text: 'three', startSecond: 11, endSecond: 12 },
+    ])
+  })
+
+  it('Aborts chunks in flight when one fails', async () => {
+    const failure = new Error('Upstream failed')
+    const aborted: number[] = []
+
+    const promise = transcribeChunks(
+      createChunks(3),
+      {},
+      {
+        name: 'mock',
+        transcribe: (audio, options) =>
+          new Promise((resolve, reject) => {
+            if (audio[0] === 1) {
+              setTimeout(() => reject(failure), 5)
+              return
+            }
+            options?.signal?.addEventListener('abort', () => {
+              aborted.push(audio[0])
+              reject(options.signal?.reason)
+            })
+          }),
+      },
+      { concurrency: 2 }
+    )
+
+    await expect(promise).rejects.toBe(failure)
+    // The third chunk is never started
+    expect(aborted).toEqual([0])
+  })
+})
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'bun:test'
+
+import {
+  isImageAllowed,
+  parseInlineMarkdown,
+  parseMarkdown,
+  sanitizeUrl,
+} from '../src/client/utils/markdown'
+
+describe('#MARKDOWN', () => {
+  it('Parses emphasis, strong, strikethrough and code spans', () => {
+    expect(parseInlineMarkdown('**bold** *it* ~~old~~ `a * b` snake_case_name')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'it' }] },
+      { type: 'text', text: ' ' },
+      { type: 'strikethrough', children: [{ type: 'text', text: 'old' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'a * b' },
+      { type: 'text', text: ' snake_case_name' },
+    ])
+  })
+
+  it('Nests strong inside emphasis', () => {
+    expect(parseInlineMarkdown('***both***')).toEqual([
+      {
+        type: 'emphasis',
+        children: [{ type: 'strong', children: [{ type: 'text', text: 'both' }] }],
+      },
+    ])
+  })
+
+  it('Parses links, autolinks and bare URLs', () => {
+    expect(parseInlineMarkdown('[docs](https://x.dev/a_(b) "Docs") <me@x.dev> www.x.dev.')).toEqual(
+      [
+        {
+          type: 'link',
+          href: 'https://x.dev/a_(b)',
+          title: 'Docs',
+          children: [{ type: 'text', text: 'docs' }],
+        },
+        { type: 'text', text: ' ' },
+        { type: 'link', href: 'mailto:me@x.dev', children: [{ type: 'text', text: 'me@x.dev' }] },
+        { type: 'text', text: ' ' },
+        { type: 'link', href: 'http://www.x.dev', children: [{ type: 'text', text: 'www.x.dev' }] },
+        { type: 'text', text: '.' },
+      ]
+    )
+  })
+
+  it('Keeps unclosed links as text without rescanning the rest of the line', () => {
+    for (const text of ['[a]('.repeat(6000), '![a]('.repeat(6000), '[a](x()'.repeat(4000)]) {
+      const start = performance.now()
+      expect(parseInlineMarkdown(text)).toEqual([{ type: 'text', text }])
+      expect(performance.now() - start).toBeLessThan(500)
+    }
+  })
+
+  it('Drops links and images with unsafe URLs', () => {
+    expect(parseInlineMarkdown('[click](javascript:alert(1))')).toEqual([
+      { type: 'text', text: 'click' },
+    ])
+    expect(parseInlineMarkdown('[x](java&#10;script:alert(1))')).toEqual([
+      { type: 'text', text: 'x' },
+    ])
+    expect(parseInlineMarkdown('![pic](data:image/svg+xml,<svg>)')).toEqual([
+      { type: 'text', text: 'pic' },
+    ])
+    expect(sanitizeUrl(' JavaScript:alert(1)')).toBeNull()
+    expect(sanitizeUrl('/forms/1?step=2')).toBe('/forms/1?step=2')
+    expect(sanitizeUrl('mailto:me@x.dev')).toBe('mailto:me@x.dev')
+  })
+
+  it('Only loads images that are allowed', () => {
+    expect(isImageAllowed('https://x.dev/a.png', false)).toBe(false)
+    expect(isImageAllowed('https://x.dev/a.png', true)).toBe(true)
+    expect(isImageAllowed('https://x.dev/a.png', ['https://x.dev/'])).toBe(true)
+    expect(isImageAllowed('https://evil.dev/a.png', ['https://x.dev'])).toBe(false)
+    expect(isImageAllowed('http://x.dev/a.png', ['https://x.dev'])).toBe(false)
+    expect(isImageAllowed('//evil.dev/a.png', ['https://x.dev'])).toBe(false)
+    expect(isImageAllowed('/a.png', ['https://x.dev'])).toBe(true)
+  })
+
+  it('Keeps raw HTML as text', () => {
+    expect(parseMarkdown('<img src=x onerror=alert(1)>')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: '<img src=x onerror=alert(1)>' }] },
+    ])
+  })
+
+  it('Parses soft and hard line breaks', () => {
+    expect(parseInlineMarkdown('a\nb  \nc\\\nd')).toEqual([
+      { type: 'text', text: 'a' },
+      { type: 'softbreak' },
+      { type: 'text', text: 'b' },
+      { type: 'break' },
+      { type: 'text', text: 'c' },
+      { type: 'break' },
+      { type: 'text', text: 'd' },
+    ])
+  })
+
+  it('Parses headings, fenced code, quotes and thematic breaks', () => {
+    expect(
+      parseMarkdown('## Title ##\n\n```ts\nconst a = 1\n\n```\n> quoted\nlazy\n\n---')
+    ).toEqual([
+      { type: 'heading', level: 2, children: [{ type: 'text', text: 'Title' }] },
+      { type: 'code', language: 'ts', text: 'const a = 1\n' },
+      {
+        type: 'blockquote',
+        children: [
+          {
+            type: 'paragraph',
+            children: [
+              { type: 'text', text: 'quoted' },
+              { type: 'softbreak' },
+              { type: 'text', text: 'lazy' },
+            ],
+          },
+        ],
+      },
+      { type: 'thematicBreak' },
+    ])
+  })
+
+  it('Keeps an unclosed fence open until the end', () => {
+    expect(parseMarkdown('```\npartial')).toEqual([{ type: 'code', text: 'partial' }])
+  })
+
+  it('Parses nested, ordered and task lists', () => {
+    const [list, ordered, tasks] = parseMarkdown(
+      '- one\n  - nested\n- two\n\n3) three\n4) four\n\n* [x] done\n* [ ] todo'
+    )
+
+    expect(list).toMatchObject({ type: 'list', ordered: false, tight: true })
+    expect(list.type === 'list' && list.items[0].children[1]).toMatchObject({
+      type: 'list',
+      items: [{ children: [{ type: 'paragraph', children: [{ type: 'text', text: 'nested' }] }] }],
+    })
+    expect(ordered).toMatchObject({ type: 'list', ordered: true, start: 3 })
+    expect(tasks.type === 'list' && tasks.items.map((item) => item.checked)).toEqual([true, false])
+  })
+
+  it('Marks lists with blank lines between items as loose', () => {
+    expect(parseMarkdown('- a\n\n- b')).toMatchObject([{ type: 'list', tight: false }])
+  })
+
+  it('Parses GFM tables with alignment and escaped pipes', () => {
+    expect(parseMarkdown('| Field | Value |\n|:--|--:|\n| a \\| b | `1` |\n| c |')).toEqual([
+      {
+        type: 'table',
+        align: ['left', 'right'],
+        header: [[{ type: 'text', text: 'Field' }], [{ type: 'text', text: 'Value' }]],
+        rows: [
+          [[{ type: 'text', text: 'a | b' }], [{ type: 'code', text: '1' }]],
+          [[{ type: 'text', text: 'c' }], []],
+        ],
+      },
+    ])
+  })
+
+  it('Turns an underlined paragraph into a heading', () => {
+    expect(parseMarkdown('Summary\n=======')).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'Summary' }] },
+    ])
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'bun:test'
+
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  createSpeechToTextHandler,
+  encodeWav,
+  estimateAudioSeconds,
+} from '../src/speech-to-text'
+
+const NOW = Date.UTC(2026, 0, 31, 12)
+
+function createUpload(fields: Record<string, string> = {}) {
+  const formData = new FormData()
+  formData.append('audio', new File([new Uint8Array(40_000)], 'audio.webm', { type: 'audio/webm' }))
+  for (const [key, value] of Object.entries(fields)) formData.append(key, value)
+  return new Request('http://localhost/', { method: 'POST', body: formData })
+}
+
+describe('#RATE_LIMIT', () => {
+  it('Limits requests within the sliding window', async () => {
+    const limiter = createRateLimiter({ maxRequests: 2, windowMs: 10_000 })
+
+    expect(await limiter.checkRequest('a', NOW)).toEqual({ allowed: true })
+    expect(await limiter.checkRequest('a', NOW + 1_000)).toEqual({ allowed: true })
+    expect(await limiter.checkRequest('a', NOW + 2_000)).toEqual({
+      allowed: false,
+      reason: 'requests',
+      retryAfterSeconds: 8,
+    })
+    expect(await limiter.checkRequest('b', NOW + 2_000)).toEqual({ allowed: true })
+    expect(await limiter.checkRequest('a', NOW + 10_001)).toEqual({ allowed: true })
+  })
+
+  it('Budgets audio seconds per UTC day', async () => {
+    const limiter = createRateLimiter({ dailyAudioSeconds: 60 })
+
+    await limiter.recordAudio('a', 45, NOW)
+    expect(await limiter.checkAudio('a', 15, NOW)).toEqual({ allowed: true })
+    expect(await limiter.checkAudio('a', 16, NOW)).toMatchObject({
+      allowed: false,
+      reason: 'audio-quota',
+      retryAfterSeconds: 12 * 60 * 60,
+    })
+
+    await limiter.recordAudio('a', 15, NOW)
+    expect(await limiter.checkRequest('a', NOW)).toMatchObject({ reason: 'audio-quota' })
+    expect(await limiter.checkRequest('a', NOW + 12 * 60 * 60 * 1000)).toEqual({ allowed: true })
+  })
+
+  it('Prunes keys whose requests left the window and usage from past days', async () => {
+    const store = createMemoryRateLimitStore()
+    const limiter = createRateLimiter({ maxRequests: 5, windowMs: 10_000, store })
+
+    await limiter.checkRequest('old', NOW)
+    await limiter.checkRequest('new', NOW + 120_000)
+    expect(await store.getHits('old', 0)).toEqual([])
+    expect(await store.getHits('new', 0)).toEqual([NOW + 120_000])
+
+    await store.addUsage('old', '2026-01-30', 10)
+    await store.addUsage('new', '2026-01-31', 10)
+    expect(await store.getUsage('old', '2026-01-30')).toBe(0)
+  })
+
+  it('Only reads the client IP from proxy headers when trustProxy is set', async () => {
+    const request = new Request('http://localhost/', {
+      headers: { 'x-forwarded-for': 'spoofed, 203.0.113.7' },
+    })
+
+    expect(await createRateLimiter({}).getKey(request)).toBe('anonymous')
+    expect(await createRateLimiter({ trustProxy: true }).getKey(request)).toBe('203.0.113.7')
+  })
+
+  it('Estimates the duration of compressed audio from its size', () => {
+    expect(estimateAudioSeconds(40_000)).toBe(10)
+  })
+
+  it('Charges non-WAV audio with the provider-reported duration', async () => {
+    const store = createMemoryRateLimitStore()
+    const handler = createSpeechToTextHandler({
+      provider: { name: 'mock', transcribe: async () => ({ text: 'Hello', duration: 3 }) },
+      rateLimit: { key: () => 'user', dailyAudioSeconds: 600, store },
+    })
+
+    expect((await handler(createUpload())).status).toBe(200)
+    expect(await store.getUsage('user', new Date().toISOString().slice(0, 10))).toBe(3)
+  })
+
+  it('Charges WAV audio with the longer of the header and provider durations', async () => {
+    const store = createMemoryRateLimitStore()
+    const handler = createSpeechToTextHandler({
+      provider: { name: 'mock', transcribe: async () => ({ text: 'Hello', duration: 7 }) },
+      rateLimit: { key: () => 'user', dailyAudioSeconds: 600, store },
+    })
+    const formData = new FormData()
+    const wav = encodeWav({ channels: [new Float32Array(8000 * 5)], sampleRate: 8000 })
+    formData.append('audio', new File([wav], 'audio.wav', { type: 'audio/wav' }))
+
+    await handler(new Request('http://localhost/', { method: 'POST', body: formData }))
+    expect(await store.getUsage('user', new Date().toISOString().slice(0, 10))).toBe(7)
+  })
+
+  it('Charges streamed non-WAV audio with an estimate', async () => {
+    const store = createMemoryRateLimitStore()
+    const handler = createSpeechToTextHandler({
+      provider: {
+        name: 'mock',
+        transcribe: async () => ({ text: 'Hello' }),
+        async *transcribeStream() {
+          yield 'Hello'
+        },
+      },
+      rateLimit: { key: () => 'user', dailyAudioSeconds: 600, store },
+    })
+
+    const response = await handler(createUpload({ stream: 'true' }))
+    expect(await response.text()).toContain('"type":"done"')
+    expect(await store.getUsage('user', new Date().toISOString().slice(0, 10))).toBe(10)
+  })
+})
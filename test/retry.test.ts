@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'bun:test'
+
+import { parseRetryAfter, TranscriptionProviderError, withRetry } from '../src/speech-to-text/retry'
+import type { TranscriptionProvider } from '../src/speech-to-text/types'
+
+/**
+ * @description Provider that fails with the given errors in turn, then succeeds
+ */
+function createFlakyProvider(name: string, errors: unknown[]) {
+  const calls: (string | undefined)[] = []
+  const provider: TranscriptionProvider = {
+    name,
+    async transcribe(_audio, options) {
+      calls.push(options?.model)
+      const error = errors.shift()
+      if (error) throw error
+      return { text: name }
+    },
+  }
+  return { provider, calls }
+}
+
+const AUDIO = new Uint8Array(1)
+
+describe('#RETRY', () => {
+  it('Retries retryable statuses with exponential backoff', async () => {
+    const { provider, calls } = createFlakyProvider('primary', [
+      new TranscriptionProviderError('Unavailable', 503),
+      new TranscriptionProviderError('Unavailable', 503),
+    ])
+    const started = performance.now()
+
+    const result = await withRetry(provider, {
+      retry: { attempts: 3, initialDelayMs: 20, backoffFactor: 2 },
+    }).transcribe(AUDIO)
+
+    expect(result.text).toBe('primary')
+    expect(calls).toHaveLength(3)
+    // 20ms, then 40ms
+    expect(performance.now() - started).toBeGreaterThanOrEqual(55)
+  })
+
+  it('Waits for Retry-After when it is longer than the backoff', async () => {
+    const { provider } = createFlakyProvider('primary', [
+      new TranscriptionProviderError('Slow down', 429, 0.1),
+    ])
+    const started = performance.now()
+
+    await withRetry(provider, { retry: { initialDelayMs: 1 } }).transcribe(AUDIO)
+
+    expect(performance.now() - started).toBeGreaterThanOrEqual(95)
+  })
+
+  it('Walks the fallback chain once a target is exhausted', async () => {
+    const { provider, calls } = createFlakyProvider('primary', [
+      new TranscriptionProviderError('Unavailable', 503),
+      new TranscriptionProviderError('Unavailable', 503),
+    ])
+    const fallback = createFlakyProvider('fallback', [])
+
+    const result = await withRetry(provider, {
+      retry: { attempts: 1 },
+      fallbacks: [{ model: 'gpt-4o-mini-transcribe' }, { provider: fallback.provider }],
+    }).transcribe(AUDIO)
+
+    expect(result.text).toBe('fallback')
+    expect(calls).toEqual([undefined, 'gpt-4o-mini-transcribe'])
+  })
+
+  it('Falls back on authorization and unknown model errors', async () => {
+    const { provider, calls } = createFlakyProvider('primary', [
+      new TranscriptionProviderError('Unauthorized', 401),
+    ])
+    const fallback = createFlakyProvider('fallback', [
+      new TranscriptionProviderError('Model not found', 404),
+    ])
+    const last = createFlakyProvider('last', [])
+
+    const result = await withRetry(provider, {
+      retry: { initialDelayMs: 1 },
+      fallbacks: [{ provider: fallback.provider }, { provider: last.provider }],
+    }).transcribe(AUDIO)
+
+    expect(result.text).toBe('last')
+    expect(calls).toHaveLength(1)
+    expect(fallback.calls).toHaveLength(1)
+  })
+
+  it('Rethrows invalid requests without retrying or falling back', async () => {
+    const invalid = new TranscriptionProviderError('Invalid audio', 400)
+    const { provider, calls } = createFlakyProvider('primary', [invalid])
+    const fallback = createFlakyProvider('fallback', [])
+
+    const promise = withRetry(provider, {
+      retry: { initialDelayMs: 1 },
+      fallbacks: [{ provider: fallback.provider }],
+    }).transcribe(AUDIO)
+
+    await expect(promise).rejects.toBe(invalid)
+    expect(calls).toHaveLength(1)
+    expect(fallback.calls).toHaveLength(0)
+  })
+
+  it('Only retries streams before the first delta', async () => {
+    let calls = 0
+    const provider: TranscriptionProvider = {
+      name: 'primary',
+      transcribe: async () => ({ text: '' }),
+      async *transcribeStream() {
+        calls++
+        yield 'Hello'
+        throw new TranscriptionProviderError('Reset', 502)
+      },
+    }
+
+    const deltas: string[] = []
+    const consume = async () => {
+      for await (const delta of withRetry(provider).transcribeStream!(AUDIO)) deltas.push(delta)
+    }
+
+    await expect(consume()).rejects.toThrow('Reset')
+    expect(deltas).toEqual(['Hello'])
+    expect(calls).toBe(1)
+  })
+
+  it('Parses Retry-After seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120)
+    expect(parseRetryAfter('-1')).toBeUndefined()
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:00 GMT')).toBeUndefined()
+    expect(parseRetryAfter(null)).toBeUndefined()
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'bun:test'
+
+import { readServerSentEvents } from '../src/speech-to-text/sse'
+
+function createStream(chunks: string[]) {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+}
+
+async function collect(chunks: string[]) {
+  const events: string[] = []
+  for await (const data of readServerSentEvents(createStream(chunks))) events.push(data)
+  return events
+}
+
+describe('#SSE', () => {
+  it('Yields data payloads and skips other fields and [DONE]', async () => {
+    expect(
+      await collect(['event: delta\ndata: {"a":1}\n\n: comment\ndata: two\n\ndata: [DONE]\n\n'])
+    ).toEqual(['{"a":1}', 'two'])
+  })
+
+  it('Joins payloads split across reads', async () => {
+    expect(await collect(['data: {"de', 'lta":"hi"}\r', '\n\ndata: last'])).toEqual([
+      '{"delta":"hi"}',
+      'last',
+    ])
+  })
+
+  it('Accepts data fields without a space after the colon', async () => {
+    expect(await collect(['data:{"a":1}\n\ndata:  indented\n\n'])).toEqual(['{"a":1}', ' indented'])
+  })
+
+  it('Joins multiple data lines of one event with newlines', async () => {
+    expect(await collect(['data: first\ndata:second\ndata\n\ndata: next\n\n'])).toEqual([
+      'first\nsecond\n',
+      'next',
+    ])
+  })
+
+  it('Decodes multi-byte characters split across reads', async () => {
+    const bytes = new TextEncoder().encode('data: café\n')
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 10))
+        controller.enqueue(bytes.slice(10))
+        controller.close()
+      },
+    })
+
+    const events: string[] = []
+    for await (const data of readServerSentEvents(stream)) events.push(data)
+
+    expect(events).toEqual(['café'])
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'bun:test'
+
+import { createSpeechToTextHandler } from '../src/speech-to-text/server'
+import {
+  isMimeTypeAllowed,
+  readFormData,
+  RequestBodyTooLargeError,
+  validateContentLength,
+  validateWavHeader,
+} from '../src/speech-to-text/validation'
+import { encodeWav } from '../src/speech-to-text/wav'
+
+function createUploadRequest(size: number, init?: { chunked?: boolean }) {
+  const formData = new FormData()
+  formData.append('audio', new File([new Uint8Array(size)], 'audio.wav', { type: 'audio/wav' }))
+  const request = new Request('http://localhost/', { method: 'POST', body: formData })
+  if (!init?.chunked) return request
+
+  // Re-send the body as a stream without a Content-Length
+  return new Request('http://localhost/', {
+    method: 'POST',
+    headers: { 'Content-Type': request.headers.get('Content-Type')! },
+    body: request.body,
+    duplex: 'half',
+  } as RequestInit)
+}
+
+describe('#VALIDATION', () => {
+  it('Matches MIME types, wildcards and parameters case-insensitively', () => {
+    expect(isMimeTypeAllowed('audio/wav', ['audio/wav'])).toBe(true)
+    expect(isMimeTypeAllowed('Audio/WebM;codecs=opus', ['audio/webm'])).toBe(true)
+    expect(isMimeTypeAllowed('audio/ogg', ['audio/*'])).toBe(true)
+    expect(isMimeTypeAllowed('video/webm', ['audio/*'])).toBe(false)
+    expect(isMimeTypeAllowed('audio/wave', ['audio/wav'])).toBe(false)
+    expect(isMimeTypeAllowed('', ['audio/*'])).toBe(false)
+  })
+
+  it('Rejects a declared Content-Length over the limit', () => {
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Length': String(10 * 1024 * 1024) },
+    })
+
+    expect(validateContentLength(request, { maxBytes: 1024 })).toMatchObject({
+      status: 413,
+      body: { code: 'FILE_TOO_LARGE' },
+    })
+    expect(validateContentLength(request, {})).toBeNull()
+  })
+
+  it('Reads form data within the limit', async () => {
+    const formData = await readFormData(createUploadRequest(1000, { chunked: true }), {
+      maxBytes: 1000,
+    })
+
+    expect((formData.get('audio') as File).size).toBe(1000)
+  })
+
+  it('Stops reading a body without Content-Length once it exceeds the limit', async () => {
+    const request = createUploadRequest(256 * 1024, { chunked: true })
+
+    expect(request.headers.get('Content-Length')).toBeNull()
+    await expect(readFormData(request, { maxBytes: 1000 })).rejects.toBeInstanceOf(
+      RequestBodyTooLargeError
+    )
+  })
+
+  it('Rejects WAV uploads with a forged byteRate', async () => {
+    // 90 seconds of 8 kHz 8-bit audio, with a byteRate that makes it look under a millisecond long
+    const wav = encodeWav(
+      { channels: [new Float32Array(8000 * 90)], sampleRate: 8000 },
+      { encoding: 'pcm8' }
+    )
+    new DataView(wav.buffer).setUint32(28, 0xffffffff, true)
+
+    expect(validateWavHeader(wav)).toMatchObject({
+      status: 400,
+      body: { code: 'UNSUPPORTED_MEDIA_TYPE' },
+    })
+    expect(validateWavHeader(new Uint8Array(100))).toBeNull()
+
+    const handler = createSpeechToTextHandler({
+      provider: { name: 'mock', transcribe: async () => ({ text: 'Hello' }) },
+      maxDurationSeconds: 60,
+    })
+    const formData = new FormData()
+    formData.append('audio', new File([wav], 'audio.wav', { type: 'audio/wav' }))
+    const response = await handler(
+      new Request('http://localhost/', { method: 'POST', body: formData })
+    )
+
+    expect(response.status).toBe(400)
+  })
+})
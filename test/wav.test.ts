@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'bun:test'
+
+import {
+  decodeWav,
+  encodeWav,
+  getWavDurationSeconds,
+  parseWav,
+  sliceWav,
+  type WavEncoding,
+} from '../src/speech-to-text/wav'
+
+const SAMPLE_RATE = 8000
+
+function createSine(length: number, frequency: number, amplitude = 0.8) {
+  return Float32Array.from({ length }, (_, i) =>
+    Math.fround(amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE))
+  )
+}
+
+const TOLERANCE: Record<WavEncoding, number> = {
+  pcm8: 1 / 0x80,
+  pcm16: 1 / 0x8000,
+  pcm24: 1 / 0x800000,
+  pcm32: 1e-7,
+  float32: 0,
+  float64: 0,
+}
+
+describe('#WAV', () => {
+  const left = createSine(800, 440)
+  const right = createSine(800, 660, 0.5)
+
+  for (const encoding of Object.keys(TOLERANCE) as WavEncoding[]) {
+    it(`Round-trips ${encoding} stereo audio`, () => {
+      const wav = encodeWav({ channels: [left, right], sampleRate: SAMPLE_RATE }, { encoding })
+      const decoded = decodeWav(wav)
+
+      expect(decoded).not.toBeNull()
+      expect(decoded!.encoding).toBe(encoding)
+      expect(decoded!.sampleRate).toBe(SAMPLE_RATE)
+      expect(decoded!.channels).toHaveLength(2)
+
+      decoded!.channels.forEach((channel, index) => {
+        const original = index === 0 ? left : right
+        expect(channel).toHaveLength(original.length)
+        const maxError = Math.max(...channel.map((sample, i) => Math.abs(sample - original[i])))
+        expect(maxError).toBeLessThanOrEqual(TOLERANCE[encoding])
+      })
+    })
+
+    it(`Re-encodes decoded ${encoding} audio byte for byte`, () => {
+      const wav = encodeWav({ channels: [left], sampleRate: SAMPLE_RATE }, { encoding })
+      const reencoded = encodeWav(decodeWav(wav)!, { encoding })
+
+      expect(reencoded).toEqual(wav)
+    })
+  }
+
+  it('Writes a header other readers understand', () => {
+    const wav = encodeWav({ channels: [left, right], sampleRate: SAMPLE_RATE })
+    const info = parseWav(wav)
+
+    expect(info).toMatchObject({
+      channels: 2,
+      sampleRate: SAMPLE_RATE,
+      byteRate: SAMPLE_RATE * 4,
+      blockAlign: 4,
+      encoding: 'pcm16',
+      dataOffset: 44,
+      dataSize: 800 * 4,
+    })
+    expect(getWavDurationSeconds(wav)).toBe(0.1)
+  })
+
+  it('Clamps out-of-range samples', () => {
+    const wav = encodeWav({ channels: [Float32Array.of(2, -2, NaN)], sampleRate: SAMPLE_RATE })
+    const decoded = decodeWav(wav)!
+
+    expect(Array.from(decoded.channels[0])).toEqual([0x7fff / 0x8000, -1, 0])
+  })
+
+  it('Decodes WAVE_FORMAT_EXTENSIBLE files', () => {
+    const wav = encodeWav({ channels: [left], sampleRate: SAMPLE_RATE }, { encoding: 'pcm24' })
+    // Rewrite the 16-byte fmt chunk as a 40-byte extensible one
+    const extensible = new Uint8Array(wav.byteLength + 24)
+    const view = new DataView(extensible.buffer)
+    extensible.set(wav.subarray(0, 36))
+    view.setUint32(4, extensible.byteLength - 8, true)
+    view.setUint32(16, 40, true)
+    view.setUint16(20, 0xfffe, true)
+    view.setUint16(36, 22, true)
+    view.setUint16(38, 24, true)
+    view.setUint16(44, 1, true) // SubFormat: PCM
+    extensible.set(wav.subarray(36), 60)
+
+    const decoded = decodeWav(extensible)
+
+    expect(decoded?.encoding).toBe('pcm24')
+    expect(decoded?.channels[0]).toEqual(decodeWav(wav)!.channels[0])
+  })
+
+  it('Slices a time range into a standalone file', () => {
+    const wav = encodeWav({ channels: [left], sampleRate: SAMPLE_RATE }, { encoding: 'float32' })
+    const slice = sliceWav(wav, parseWav(wav)!, 0.025, 0.05)
+    const decoded = decodeWav(slice)!
+
+    expect(decoded.encoding).toBe('float32')
+    expect(decoded.channels[0]).toEqual(left.slice(200, 400))
+  })
+
+  it('Rejects data that is not a decodable WAV file', () => {
+    expect(decodeWav(new Uint8Array(64))).toBeNull()
+
+    const wav = encodeWav({ channels: [left], sampleRate: SAMPLE_RATE })
+    new DataView(wav.buffer).setUint16(20, 7, true) // mu-law
+
+    expect(parseWav(wav)?.encoding).toBeNull()
+    expect(decodeWav(wav)).toBeNull()
+  })
+
+  it('Rejects a forged byteRate', () => {
+    const wav = encodeWav({ channels: [left], sampleRate: SAMPLE_RATE })
+    new DataView(wav.buffer).setUint32(28, 0xffffffff, true)
+
+    expect(parseWav(wav)).toBeNull()
+    expect(getWavDurationSeconds(wav)).toBeNull()
+  })
+
+  it('Rejects a fmt chunk too short to hold bitsPerSample', () => {
+    const wav = encodeWav({ channels: [left], sampleRate: SAMPLE_RATE })
+    // Drop the last 2 bytes of the 16-byte fmt chunk
+    const truncated = new Uint8Array(wav.byteLength - 2)
+    const view = new DataView(truncated.buffer)
+    truncated.set(wav.subarray(0, 34))
+    truncated.set(wav.subarray(36), 34)
+    view.setUint32(4, truncated.byteLength - 8, true)
+    view.setUint32(16, 14, true)
+
+    expect(parseWav(truncated)).toMatchObject({ encoding: null, dataOffset: 42 })
+    expect(decodeWav(truncated)).toBeNull()
+  })
+})